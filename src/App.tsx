@@ -1,39 +1,119 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import JSZip from 'jszip';
-import { GoogleGenAI, type Part } from "@google/genai";
+import type { Part } from "@google/genai";
 import { CheckIcon, ChevronIcon } from './components/icons';
 import { Spinner } from './components/spinners';
 import { Modal } from './components/Modal';
 import { DropZone } from './components/DropZone';
-import { ImageReferenceItem, type ImageReference, type ImageHistory, type ImageVersionNode } from './components/ImageReferenceItem';
-import { fileToGenerativePart, generateContentWithRetry, generateImageFromPrompt, generateImageVariation, generateEditedImage } from './services/genai';
+import { DocumentPicker } from './components/DocumentPicker';
+import { SuggestionReview } from './components/SuggestionReview';
+import { QueueControls } from './components/QueueControls';
+import { CacheInspector } from './components/CacheInspector';
+import { StyleLibrary } from './components/StyleLibrary';
+import { SubjectLibrary } from './components/SubjectLibrary';
+import { TemplateEditor } from './components/TemplateEditor';
+import { ImageReferenceItem, slotImage, type GenerationSettings, type ImageReference, type ImageHistory, type ImageVersionNode, type SlotFailure } from './components/ImageReferenceItem';
+import { dataUrlToPart, fileToGenerativePart, type ImageGenerationOptions, type RequestOptions } from './services/genai';
+import { getProvider, type GenerationProvider } from './services/provider';
+import { documentSlug, formatImageFilename, listMarkdownPaths, loadMarkdownDocuments, readDocument, type MarkdownDocument } from './services/documents';
+import { dataUrlMime, isModelImageType, readAsDataUrl, mimeFromExtension, rasterizeImage, toBase64DataUrl, toImageDataUrl } from './services/imageFormats';
+import { basename, dirname, joinPath, relativePath, resolveArchivePath, resolveWikiTarget } from './services/paths';
+import { detectSlideDeck, slideAt, slideContext, type Slide, type SlideDeck } from './services/slides';
+import { directivePromptText, findDirectives, MAX_PROPOSALS, stripDirectiveAttributes } from './services/directives';
+import { NAMING_SCHEMA, promptListSchema, readNaming, readPromptList, requestStructured } from './services/structured';
+import { createJobQueue } from './services/queue';
+import { describeError, errorKind, formatSafetyCategory, GenerationError } from './services/errors';
+import { getResponseCache, hashText } from './services/cache';
+import { compositeMasked } from './services/mask';
+import { getStyleLibrary, type StylePreset } from './services/styles';
+import { findMentionedSubjects, getSubjectLibrary, type Subject } from './services/subjects';
+import { formatStyleGuide, loadStyleGuide, saveStyleGuide, type StyleGuide } from './services/styleGuide';
+import { activeTemplates, fillTemplate, loadDefaultTemplates, loadTemplateLibrary, saveTemplateLibrary, TEMPLATE_NAMES, type TemplateLibrary, type TemplateSet } from './services/templates';
+import { numberLines, parseSuggestions, type ImageSuggestion } from './services/suggestions';
+import { applyEdits, findImageReferences, formatDefinition, formatImageReference, formatMarkdownImage, formatWikiEmbed, rewriteHtmlImage, type FoundImage, type SourceRange, type TextEdit } from './services/markdown';
+
+// One proposal slot's outcome; `rephrasedFrom` is the refused prompt when `prompt` is its rewording
+interface SlotResult {
+    prompt: string;
+    image: string | null;
+    rephrasedFrom?: string;
+    failure?: SlotFailure;
+}
+
+const slotFailure = (error: unknown): SlotFailure => ({
+    message: error instanceof Error ? error.message : 'Image generation failed.',
+    kind: errorKind(error),
+    refusal: error instanceof GenerationError ? error.refusal : undefined,
+});
+
+const normalizeImage = (img: string | null): string | null => {
+    if (!img || typeof img !== 'string') return null;
+    const looksLikeDataUrl = /^data:image\/(png|jpeg|jpg|webp|gif);base64,/i.test(img);
+    if (!looksLikeDataUrl) return null;
+    // Basic size sanity check to avoid empty payloads that render invisibly
+    if (img.length < 200) return null;
+    return img;
+};
 
 export const App = () => {
-    const [view, setView] = useState<'upload' | 'generation'>('upload');
+    const [view, setView] = useState<'upload' | 'review' | 'generation'>('upload');
     const [markdownFile, setMarkdownFile] = useState<File | null>(null);
-    const [markdownContent, setMarkdownContent] = useState<string | null>(null);
+    // Multi-document projects: every .md in the uploaded zip, and the ones chosen for illustration
+    const [markdownPaths, setMarkdownPaths] = useState<string[]>([]);
+    const [selectedMarkdownPaths, setSelectedMarkdownPaths] = useState<string[]>([]);
+    const [documents, setDocuments] = useState<MarkdownDocument[]>([]);
+    // Document whose front matter seeded the style options, shown in Advanced Options
+    const [configSource, setConfigSource] = useState<string | null>(null);
     const [styleImageFile, setStyleImageFile] = useState<File | null>(null);
     const [styleReferenceImage, setStyleReferenceImage] = useState<Part | undefined>(undefined);
     const [maintainStyle, setMaintainStyle] = useState(false);
+    const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+    // '' is no preset: the style image above, if any, is used instead
+    const [defaultStylePresetId, setDefaultStylePresetId] = useState('');
+    const [documentStylePresets, setDocumentStylePresets] = useState<Record<string, string>>({});
+    const [subjects, setSubjects] = useState<Subject[]>([]);
+    const [styleGuide, setStyleGuide] = useState<StyleGuide>(loadStyleGuide);
+    // Keep `<!-- bananamd: ... -->` comments and `data-bananamd-*` attributes in the exported Markdown
+    const [keepDirectives, setKeepDirectives] = useState(false);
     const [isParsing, setIsParsing] = useState(false);
+    // Auto-illustrate: suggest insertion points for documents without image references
+    const [autoIllustrate, setAutoIllustrate] = useState(false);
+    // Proposals per reference unless a directive, the front matter or the reference itself says otherwise
+    const [defaultProposalCount, setDefaultProposalCount] = useState(2);
+    // Ask the model again instead of reusing cached answers (fresh answers still refresh the cache)
+    const [bypassCache, setBypassCache] = useState(false);
+    // Rephrase a refused prompt with the text model and try it once more during generation
+    const [autoRephrase, setAutoRephrase] = useState(false);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestions, setSuggestions] = useState<ImageSuggestion[]>([]);
+    // References found by parsing, held while suggestions are reviewed
+    const [pendingReferences, setPendingReferences] = useState<ImageReference[]>([]);
     const [markdownError, setMarkdownError] = useState('');
     const [showAdvanced, setShowAdvanced] = useState(false);
     const [imageReferences, setImageReferences] = useState<ImageReference[]>([]);
-    const [mdBaseName, setMdBaseName] = useState<string>('document.md');
     const [currentReferenceIndex, setCurrentReferenceIndex] = useState<number | null>(null);
-    const generationTriggered = useRef(new Set<number>());
+    // Background generation: pause switch and how many references generate at once
+    const [queuePaused, setQueuePaused] = useState(false);
+    const [queueConcurrency, setQueueConcurrency] = useState(2);
     const exportTriggered = useRef(false);
-
-    const [templates, setTemplates] = useState<{ context: string; description: string; naming: string; imageDescribe: string; } | null>(null);
+    // Every model call runs as a task that can be cancelled alone, or with its whole session on Start Over.
+    // Results from a cancelled task or an ended session are dropped instead of written into state.
+    const sessionRef = useRef(0);
+    const taskControllers = useRef(new Map<string, AbortController>());
+
+    const [defaultTemplates, setDefaultTemplates] = useState<TemplateSet | null>(null);
+    // Saved template versions and which one each template uses
+    const [templateLibrary, setTemplateLibrary] = useState<TemplateLibrary>(loadTemplateLibrary);
     const [templateError, setTemplateError] = useState('');
+    // Hash of the loaded templates, so cached answers from other template versions are not reused
+    const [templateVersion, setTemplateVersion] = useState('');
 
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [modalContent, setModalContent] = useState('');
     const [isImageModalOpen, setIsImageModalOpen] = useState(false);
     const [imageModalSrc, setImageModalSrc] = useState('');
-
-    const [isPromptModalOpen, setIsPromptModalOpen] = useState(false);
-    const [promptModalContent, setPromptModalContent] = useState('');
+    // Slot of the current reference shown in the image modal, which can then edit a region of it
+    const [imageModalSlot, setImageModalSlot] = useState<number | null>(null);
 
     // Export state
     const [exporting, setExporting] = useState(false);
@@ -53,45 +133,55 @@ export const App = () => {
         setModalContent('');
     };
 
-    const openImageModal = (src: string) => {
+    const openImageModal = (src: string, imageIndex?: number) => {
         setImageModalSrc(src);
+        setImageModalSlot(imageIndex ?? null);
         setIsImageModalOpen(true);
     };
     const closeImageModal = () => {
         setIsImageModalOpen(false);
         setImageModalSrc('');
+        setImageModalSlot(null);
     };
 
-    const openPromptModal = (prompt: string) => {
-        setPromptModalContent(prompt);
-        setIsPromptModalOpen(true);
+    const startTask = (key: string) => {
+        // A new task for the same key (e.g. a second edit of one slot) replaces the previous one
+        taskControllers.current.get(key)?.abort();
+        const controller = new AbortController();
+        taskControllers.current.set(key, controller);
+        const session = sessionRef.current;
+        return {
+            signal: controller.signal,
+            isCurrent: () => session === sessionRef.current && !controller.signal.aborted,
+            finish: () => {
+                if (taskControllers.current.get(key) === controller) taskControllers.current.delete(key);
+            },
+        };
     };
-
-    const closePromptModal = () => {
-        setIsPromptModalOpen(false);
-        setPromptModalContent('');
+    const cancelTask = (key: string) => {
+        taskControllers.current.get(key)?.abort();
+        taskControllers.current.delete(key);
+    };
+    // Retries and edits of one reference's slots
+    const cancelSlotTasks = (index: number) => {
+        for (const key of [...taskControllers.current.keys()]) {
+            if (key.startsWith(`slot:${index}:`)) cancelTask(key);
+        }
+    };
+    const endSession = () => {
+        sessionRef.current++;
+        taskControllers.current.forEach(controller => controller.abort());
+        taskControllers.current.clear();
+        generationQueue.clear();
     };
 
     const allImagesSelected = React.useMemo(() => {
         if (!imageReferences.length) return false;
         return imageReferences.every(ref => {
+            if (ref.outcome) return true;
             const idx = ref.selectedIndex;
             if (idx === undefined || idx === null) return false;
-            if (ref.status === 'to-generate') {
-                const hist = ref.histories?.[idx] || null;
-                const img = hist ? hist.nodes[hist.currentId].imageData : ref.generatedImages?.[idx] || null;
-                return !!img;
-            } else {
-                if (idx === 0) {
-                    const hist = ref.histories?.[0] || null;
-                    const img = hist ? hist.nodes[hist.currentId].imageData : (ref.generatedImproved || null);
-                    return !!img;
-                } else {
-                    const hist = ref.histories?.[1] || null;
-                    const img = hist ? hist.nodes[hist.currentId].imageData : ref.generatedVariation || null;
-                    return !!img;
-                }
-            }
+            return !!slotImage(ref, idx);
         });
     }, [imageReferences]);
 
@@ -104,22 +194,10 @@ export const App = () => {
     }, [allImagesSelected, exporting, zipUrl]);
 
     const getSelectedImageData = (ref: ImageReference): { img: string; idx: number; promptHint: string } => {
-        const idx = ref.status === 'to-generate' ? (ref.selectedIndex as number) : (ref.selectedIndex ?? 0);
-        let img: string | null | undefined = null;
-        if (ref.status === 'to-generate') {
-            const hist = ref.histories?.[idx] || null;
-            img = hist ? hist.nodes[hist.currentId].imageData : (ref.generatedImages?.[idx] || null);
-        } else {
-            if (idx === 0) {
-                const hist = ref.histories?.[0] || null;
-                img = hist ? hist.nodes[hist.currentId].imageData : (ref.generatedImproved || null);
-            } else {
-                const hist = ref.histories?.[1] || null;
-                img = hist ? hist.nodes[hist.currentId].imageData : (ref.generatedVariation || null);
-            }
-        }
+        const idx = ref.selectedIndex ?? 0;
+        const img = slotImage(ref, idx);
         const promptHint = ref.proposedPrompts?.[idx] || ref.alt || '';
-        return { img: img as string, idx, promptHint };
+        return { img: img!, idx, promptHint };
     };
 
     const parseDataUrl = (dataUrl: string): { mimeType: string; base64: string } => {
@@ -132,125 +210,237 @@ export const App = () => {
         if (mime.includes('jpeg') || mime.includes('jpg')) return 'jpg';
         if (mime.includes('webp')) return 'webp';
         if (mime.includes('gif')) return 'gif';
+        if (mime.includes('svg')) return 'svg';
+        if (mime.includes('avif')) return 'avif';
+        if (mime.includes('bmp')) return 'bmp';
+        if (mime.includes('tiff')) return 'tiff';
+        if (mime.includes('heic')) return 'heic';
+        if (mime.includes('heif')) return 'heif';
         return 'png';
     };
+    // The model only receives formats it accepts; vector and other originals are sent as a PNG rendering
+    const modelImageFor = (ref: ImageReference): string => ref.originalRaster || ref.originalImage!;
+    const prepareOriginal = async (originalImage: string): Promise<Pick<ImageReference, 'originalRaster' | 'formatIssue'>> => {
+        if (isModelImageType(dataUrlMime(originalImage))) return {};
+        try {
+            return { originalRaster: await rasterizeImage(originalImage) };
+        } catch (e) {
+            return { formatIssue: e instanceof Error ? e.message : 'The original image could not be decoded.' };
+        }
+    };
     const sanitizeSlug = (s: string): string => {
         const cleaned = s.toLowerCase().replace(/[^a-z0-9\s-]/g, '').trim().replace(/\s+/g, '-').replace(/-+/g, '-');
         return cleaned || 'image';
     };
+    const documentConfig = (ref: ImageReference) => documents.find(d => d.path === ref.documentPath)?.config;
+    // Shape and size only: edits keep the reference's frame without restating its prompt text
+    const frameOptionsFor = (ref: ImageReference): ImageGenerationOptions => ({
+        aspectRatio: ref.aspectRatio,
+        size: ref.outputSize,
+        fit: ref.fit,
+    });
+    const cacheOptions: RequestOptions = { templateVersion, bypassCache };
+    // The reference's own choice, then its document's, then the default; a deleted preset counts as none
+    const stylePresetFor = (ref: ImageReference): StylePreset | undefined => {
+        const id = ref.stylePresetId ?? documentStylePresets[ref.documentPath] ?? defaultStylePresetId;
+        return id ? stylePresets.find(p => p.id === id) : undefined;
+    };
+    /** Style references for a reference: its preset's images, else the kept or uploaded style image. */
+    const styleImagesFor = async (ref: ImageReference): Promise<Part[]> => {
+        const preset = stylePresetFor(ref);
+        if (preset) return preset.images.map(dataUrlToPart);
+        if (styleReferenceImage) return [styleReferenceImage];
+        if (!styleImageFile) return [];
+        try {
+            return [await fileToGenerativePart(styleImageFile)];
+        } catch (e) {
+            console.error("Could not process style image:", e);
+            return [];
+        }
+    };
+    const mentionedSubjects = (ref: ImageReference): Subject[] => findMentionedSubjects(`${ref.alt}\n${ref.context}`, subjects);
+    // Recurring subjects travel with generations and edits alike, so they look the same in every version
+    const subjectOptionsFor = (ref: ImageReference): ImageGenerationOptions => ({
+        subjects: mentionedSubjects(ref).map(subject => ({ name: subject.name, description: subject.description, images: subject.images.map(dataUrlToPart) })),
+    });
+    // The document's front matter, else the global field
+    const documentStyleGuide = (ref: ImageReference): StyleGuide => ({
+        guide: documentConfig(ref)?.styleGuide ?? styleGuide.guide,
+        avoid: documentConfig(ref)?.avoid ?? styleGuide.avoid,
+    });
+    // The reference's override, else the document's; a style preset's guide is added to either
+    const styleGuideFor = (ref: ImageReference): string => {
+        const inherited = documentStyleGuide(ref);
+        return formatStyleGuide({
+            guide: [ref.styleGuide ?? inherited.guide, stylePresetFor(ref)?.guide].filter(Boolean).join('\n'),
+            avoid: ref.avoid ?? inherited.avoid,
+        });
+    };
+    const imageOptionsFor = (ref: ImageReference): ImageGenerationOptions => ({
+        ...cacheOptions,
+        ...frameOptionsFor(ref),
+        ...subjectOptionsFor(ref),
+        styleGuide: styleGuideFor(ref),
+        extraPrompt: directivePromptText(ref.directives),
+    });
+    const proposalCountFor = (ref: ImageReference): number =>
+        ref.proposalCount ?? ref.directives?.proposals ?? documentConfig(ref)?.proposals ?? defaultProposalCount;
 
     const createFilenameAndDescription = async (
-        ai: GoogleGenAI,
+        provider: GenerationProvider,
         ref: ImageReference,
         promptHint: string,
-        imageDataUrl: string
+        imageDataUrl: string,
+        signal?: AbortSignal
     ): Promise<{ slug: string; alt: string }> => {
         if (!templates?.naming) throw new Error('Naming template not loaded');
-        const tmpl = templates.naming
-            .replace('{context}', ref.context || '')
-            .replace('{user_alt}', ref.alt || '')
-            .replace('{prompt_hint}', promptHint || '');
-        const { mimeType, base64 } = parseDataUrl(imageDataUrl);
-        const imagePart = { inlineData: { mimeType, data: base64 } } as any;
-        const resp = await generateContentWithRetry(ai, {
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, { text: tmpl }] },
+        const tmpl = fillTemplate(templates.naming, {
+            context: ref.context || '',
+            user_alt: ref.alt || '',
+            prompt_hint: promptHint || '',
+            alt_language: documentConfig(ref)?.altLanguage || '',
         });
-        const txt = typeof (resp as any).text === 'function' ? await (resp as any).text() : String((resp as any).text || '');
-        const filenameMatch = txt.match(/<filename>([\s\S]*?)<\/filename>/);
-        const descMatch = txt.match(/<description>([\s\S]*?)<\/description>/);
-        const rawSlug = sanitizeSlug((filenameMatch?.[1] || '').trim());
-        const alt = (descMatch?.[1] || '').trim();
-        return { slug: rawSlug || 'image', alt: alt || ref.alt || 'Illustrative image' };
+        const naming = await requestStructured(provider, options => provider.describeImage(imageDataUrl, tmpl, options), NAMING_SCHEMA, readNaming, { ...cacheOptions, signal });
+        return { slug: sanitizeSlug(naming.filename) || 'image', alt: naming.description };
     };
 
     
 
     const handleBuildExports = async () => {
-        if (!markdownContent) return;
+        if (!documents.length) return;
         setExporting(true);
         setExportError('');
         setExportPreview('');
         setZipUrl(null);
         setZipAllUrl(null);
+        const task = startTask('export');
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            const provider = getProvider();
             const zip = new JSZip();
-            const imagesFolder = zip.folder('images');
+            const isMultiDocument = documents.length > 1;
+            // Prefix filenames with the document slug so lessons never overwrite each other's images
+            const filePrefix = (ref: ImageReference) => isMultiDocument ? `${documentSlug(ref.documentPath)}-${ref.lineNumber}` : `${ref.lineNumber}`;
 
             // Sort references by startIndex for deterministic replacement order
             const sorted = [...imageReferences].sort((a, b) => (a.startIndex || 0) - (b.startIndex || 0));
 
             const fileInfos: { ref: ImageReference; filename: string; alt: string; relPath: string; dataUrl: string }[] = [];
-            const slugByRef = new Map<number, string>();
+            const slugByRef = new Map<ImageReference, string>();
+            const usedZipPaths = new Set<string>();
+            const countByDocument = new Map<string, number>();
 
             for (const ref of sorted) {
+                if (ref.outcome) continue;
                 const { img, promptHint } = getSelectedImageData(ref);
                 const { mimeType, base64 } = parseDataUrl(img);
-                const { slug, alt } = await createFilenameAndDescription(ai, ref, promptHint, img);
+                const { slug, alt } = await createFilenameAndDescription(provider, ref, promptHint, img, task.signal);
                 const ext = extFromMime(mimeType);
-                // Add line number prefix to avoid collisions and keep context
-                const filename = `${ref.lineNumber}-${slug}.${ext}`;
-                slugByRef.set(ref.lineNumber, slug);
-                imagesFolder!.file(filename, base64, { base64: true });
+                const config = documentConfig(ref);
+                const n = (countByDocument.get(ref.documentPath) || 0) + 1;
+                countByDocument.set(ref.documentPath, n);
+                // Front matter can move images next to the document and rename them; default is images/ at the root
+                const folder = (config?.imageFolder && joinPath(dirname(ref.documentPath), config.imageFolder)) || 'images';
+                const baseName = config?.filenamePattern
+                    ? formatImageFilename(config.filenamePattern, { doc: documentSlug(ref.documentPath), line: ref.lineNumber, n, slug })
+                    // Add line number prefix to avoid collisions and keep context
+                    : `${filePrefix(ref)}-${slug}`;
+                let filename = `${baseName}.${ext}`;
+                for (let i = 2; usedZipPaths.has(`${folder}/${filename}`); i++) filename = `${baseName}-${i}.${ext}`;
+                usedZipPaths.add(`${folder}/${filename}`);
+                slugByRef.set(ref, slug);
+                zip.file(`${folder}/${filename}`, base64, { base64: true });
                 const dataUrl = `data:${mimeType};base64,${base64}`;
-                fileInfos.push({ ref, filename, alt, relPath: `images/${filename}`, dataUrl });
+                // Image paths are written relative to each document's own folder
+                const relPath = relativePath(dirname(ref.documentPath), `${folder}/${filename}`);
+                fileInfos.push({ ref, filename, alt, relPath, dataUrl });
             }
 
-            // Rebuild Markdown content with new alts and image paths
-            let cursor = 0;
-            let rebuilt = '';
-            for (const info of sorted.map(r => fileInfos.find(f => f.ref === r)!)) {
-                const start = info.ref.startIndex || 0;
-                const end = start + (info.ref.matchLength || 0);
-                rebuilt += markdownContent.slice(cursor, start);
-                if (info.ref.syntax === 'markdown') {
-                    rebuilt += `![${info.alt}](${info.relPath})`;
-                } else {
-                    const original = markdownContent.slice(start, end);
-                    let replaced = original.replace(/src\s*=\s*(?:\"[^\"]*\"|'[^']*'|[^\s>]+)/i, `src="${info.relPath}"`);
-                    if (/alt\s*=\s*/i.test(replaced)) {
-                        replaced = replaced.replace(/alt\s*=\s*(?:\"[^\"]*\"|'[^']*'|[^\s>]+)/i, `alt="${info.alt}"`);
+            const escapeHtml = (s: string) => s.replace(/[&<>]/g, c => ({'&':'&amp;','<':'&lt;','>':'&gt;'}[c]!));
+            const rebuiltDocuments: { path: string; rebuilt: string; html: string }[] = [];
+
+            for (const doc of documents) {
+                const docRefs = sorted.filter(r => r.documentPath === doc.path);
+                const docInfos = fileInfos.filter(f => f.ref.documentPath === doc.path);
+                const pathToData = new Map<string, string>();
+
+                // Rebuild Markdown content with new alts and image paths, keeping each reference's syntax
+                const edits: TextEdit[] = [];
+                // Definitions still used by kept or skipped images must keep pointing at the original
+                const rewrittenDefinitions = new Set<string>(docRefs.filter(r => r.outcome && r.definition).map(r => r.definition!.identifier));
+                for (const ref of docRefs) {
+                    const range = { startIndex: ref.startIndex || 0, matchLength: ref.matchLength || 0 };
+                    const original = doc.content.slice(range.startIndex, range.startIndex + range.matchLength);
+                    if (ref.directiveRange && !keepDirectives) edits.push({ ...ref.directiveRange, text: '' });
+
+                    const info = fileInfos.find(f => f.ref === ref);
+                    if (!info) {
+                        // Kept or skipped: leave the reference as written (minus directive attributes)
+                        if (ref.syntax === 'html' && ref.directives && !keepDirectives) edits.push({ ...range, text: stripDirectiveAttributes(original) });
+                        // Both keep linking to the original, so it goes into the package with them
+                        if (ref.originalImage) {
+                            if (ref.originalZipPath) zip.file(ref.originalZipPath, parseDataUrl(ref.originalImage).base64, { base64: true });
+                            pathToData.set(ref.path, ref.originalImage);
+                        }
+                        continue;
+                    }
+
+                    if (ref.insertion) {
+                        // Auto-illustrate: add the image as its own paragraph after the anchor block
+                        edits.push({ ...range, text: `\n\n${formatMarkdownImage(info.alt, info.relPath)}` });
+                    } else if (ref.syntax === 'reference' && ref.definition) {
+                        if (!rewrittenDefinitions.has(ref.definition.identifier)) {
+                            // First image using this definition owns it: rewrite the definition, keep the reference form
+                            rewrittenDefinitions.add(ref.definition.identifier);
+                            const label = ref.referenceLabel || ref.definition.identifier;
+                            edits.push({ ...range, text: formatImageReference(info.alt, label) });
+                            edits.push({ ...ref.definition, text: formatDefinition(label, info.relPath, ref.title) });
+                        } else {
+                            // Shared definitions already point at another image, so inline this one
+                            edits.push({ ...range, text: formatMarkdownImage(info.alt, info.relPath, ref.title) });
+                        }
+                    } else if (ref.syntax === 'wiki') {
+                        // Obsidian resolves embeds by file name, so the wiki syntax only needs the new name
+                        edits.push({ ...range, text: formatWikiEmbed(info.filename, info.alt, ref.wikiSize) });
+                    } else if (ref.syntax === 'html') {
+                        const tag = keepDirectives ? original : stripDirectiveAttributes(original);
+                        edits.push({ ...range, text: rewriteHtmlImage(tag, info.relPath, info.alt) });
                     } else {
-                        replaced = replaced.replace(/<img/i, `<img alt="${info.alt}"`);
+                        edits.push({ ...range, text: formatMarkdownImage(info.alt, info.relPath, ref.title) });
                     }
-                    rebuilt += replaced;
                 }
-                cursor = end;
-            }
-            rebuilt += markdownContent.slice(cursor);
+                const rebuilt = applyEdits(doc.content, edits);
 
-            // Add updated markdown file
-            zip.file(mdBaseName, rebuilt);
+                // Add updated markdown file at its original location
+                zip.file(doc.path, rebuilt);
 
-            // Build HTML preview by inlining image data URLs
-            const pathToData = new Map<string, string>();
-            for (const fi of fileInfos) pathToData.set(fi.relPath, fi.dataUrl);
+                // Build HTML preview by inlining image data URLs
+                for (const fi of docInfos) {
+                    pathToData.set(fi.relPath, fi.dataUrl);
+                    pathToData.set(fi.filename, fi.dataUrl);
+                }
 
-            const escapeHtml = (s: string) => s.replace(/[&<>]/g, c => ({'&':'&amp;','<':'&lt;','>':'&gt;'}[c]!));
-            let html = rebuilt;
-            // Replace Markdown images with inline HTML <img>
-            html = html.replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_m, alt, src) => {
-                const norm = src.replace(/^\.\//,'');
-                const data = pathToData.get(src) || pathToData.get(norm) || src;
-                return `<img alt="${escapeHtml(String(alt||''))}" src="${data}">`;
-            });
-            // Replace HTML <img src="..."> paths to data URLs when available
-            html = html.replace(/<img([^>]*?)src\s*=\s*(["'])([^"']+?)\2([^>]*)>/gi, (m, pre, q, src, post) => {
-                const norm = src.replace(/^\.\//,'');
-                const data = pathToData.get(src) || pathToData.get(norm);
-                return data ? `<img${pre}src=${q}${data}${q}${post}>` : m;
-            });
-            // Very light Markdown headings/paragraphs for the rest (optional)
-            const lines = html.split(/\n\n+/).map(block => {
-                if (/^###\s+/.test(block)) return `<h3>${escapeHtml(block.replace(/^###\s+/,''))}</h3>`;
-                if (/^##\s+/.test(block)) return `<h2>${escapeHtml(block.replace(/^##\s+/,'').trim())}</h2>`;
-                if (/^#\s+/.test(block)) return `<h1>${escapeHtml(block.replace(/^#\s+/,'').trim())}</h1>`;
-                if (/^<img/.test(block)) return block; // already HTML
-                if (/^<.+>/.test(block)) return block; // leave other HTML
-                return `<p>${escapeHtml(block)}</p>`;
-            }).join('\n');
-            setExportPreviewHtml(lines);
+                // Replace every image (inline, reference-style or HTML) with an inline <img> pointing at its data URL
+                const html = applyEdits(rebuilt, findImageReferences(rebuilt).map(found => {
+                    const src = found.path.replace(/^\.\//,'');
+                    const data = pathToData.get(found.path) || pathToData.get(src) || found.path;
+                    return { ...found, text: `<img alt="${escapeHtml(found.alt).replace(/"/g, '&quot;')}" src="${data}">` };
+                }));
+                // Very light Markdown headings/paragraphs for the rest (optional)
+                const lines = html.split(/\n\n+/).map(block => {
+                    if (/^###\s+/.test(block)) return `<h3>${escapeHtml(block.replace(/^###\s+/,''))}</h3>`;
+                    if (/^##\s+/.test(block)) return `<h2>${escapeHtml(block.replace(/^##\s+/,'').trim())}</h2>`;
+                    if (/^#\s+/.test(block)) return `<h1>${escapeHtml(block.replace(/^#\s+/,'').trim())}</h1>`;
+                    if (/^<img/.test(block)) return block; // already HTML
+                    if (/^<.+>/.test(block)) return block; // leave other HTML
+                    return `<p>${escapeHtml(block)}</p>`;
+                }).join('\n');
+                rebuiltDocuments.push({ path: doc.path, rebuilt, html: lines });
+            }
+
+            task.signal.throwIfAborted();
+            setExportPreviewHtml(isMultiDocument
+                ? rebuiltDocuments.map(d => `<div class="preview-document-path">${escapeHtml(d.path)}</div>\n${d.html}`).join('\n<hr>\n')
+                : rebuiltDocuments[0].html);
 
             // Build optional ZIP with all generated images
             const zipAll = new JSZip();
@@ -264,116 +454,145 @@ export const App = () => {
                 }
             };
             for (const ref of sorted) {
-                const baseSlug = slugByRef.get(ref.lineNumber) || `${ref.lineNumber}-image`;
+                const baseSlug = slugByRef.get(ref) || 'image';
                 const collect = (dataUrl: string | null | undefined, suffix: string) => {
                     if (!dataUrl) return;
                     const { mimeType } = parseDataUrl(dataUrl);
                     const ext = extFromMime(mimeType);
-                    const fname = `${ref.lineNumber}-${baseSlug}-${suffix}.${ext}`;
+                    const fname = `${filePrefix(ref)}-${baseSlug}-${suffix}.${ext}`;
                     toAdd(fname, dataUrl);
                 };
-                if (ref.status === 'to-generate') {
-                    // both initial options
-                    collect(ref.generatedImages?.[0], 'option1');
-                    collect(ref.generatedImages?.[1], 'option2');
-                    // histories for both slots
-                    const h0 = ref.histories?.[0];
-                    if (h0) {
-                        h0.order.forEach((id, idx) => collect(h0.nodes[id].imageData, `hist0-v${idx + 1}`));
-                    }
-                    const h1 = ref.histories?.[1];
-                    if (h1) {
-                        h1.order.forEach((id, idx) => collect(h1.nodes[id].imageData, `hist1-v${idx + 1}`));
-                    }
-                } else {
-                    collect(ref.originalImage, 'original');
-                    collect(ref.generatedVariation, 'variation');
-                    const h0 = ref.histories?.[0];
-                    if (h0) {
-                        h0.order.forEach((id, idx) => collect(h0.nodes[id].imageData, `hist0-v${idx + 1}`));
-                    }
-                    const h1 = ref.histories?.[1];
-                    if (h1) {
-                        h1.order.forEach((id, idx) => collect(h1.nodes[id].imageData, `hist1-v${idx + 1}`));
-                    }
-                }
+                if (ref.status === 'existing') collect(ref.originalImage, 'original');
+                // Every proposal as generated, then every version of the edited ones
+                ref.generatedImages?.forEach((img, i) => collect(img, `option${i + 1}`));
+                ref.histories?.forEach((history, i) => {
+                    history?.order.forEach((id, v) => collect(history.nodes[id].imageData, `hist${i}-v${v + 1}`));
+                });
             }
 
             const [blobMain, blobAll] = await Promise.all([
                 zip.generateAsync({ type: 'blob' }),
                 zipAll.generateAsync({ type: 'blob' })
             ]);
+            task.signal.throwIfAborted();
 
             const mainUrl = URL.createObjectURL(blobMain);
             const allUrl = URL.createObjectURL(blobAll);
             setZipUrl(mainUrl);
             setZipAllUrl(allUrl);
-            setExportPreview(rebuilt);
+            setExportPreview(rebuiltDocuments.map(d => isMultiDocument ? `<!-- ${d.path} -->\n${d.rebuilt}` : d.rebuilt).join('\n\n'));
             
         } catch (e: any) {
+            if (!task.isCurrent()) return;
             console.error('Export failed:', e);
-            setExportError(e?.message || 'Export failed');
+            setExportError(describeError(e, 'Export failed'));
         } finally {
-            setExporting(false);
+            task.finish();
+            if (task.isCurrent()) setExporting(false);
         }
     };
 
+    const refreshStylePresets = async () => setStylePresets(await getStyleLibrary().list());
     useEffect(() => {
-        const loadTemplates = async () => {
-            try {
-                const [contextRes, descriptionRes, namingRes, imageDescribeRes] = await Promise.all([
-                    fetch('./context_to_description.txt'),
-                    fetch('./description_to_nano_prompt.txt'),
-                    fetch('./image_to_filename_description.txt'),
-                    fetch('./image_to_description.txt')
-                ]);
-
-                if (!contextRes.ok || !descriptionRes.ok || !namingRes.ok || !imageDescribeRes.ok) {
-                    throw new Error('Failed to load prompt templates. Check network tab for details.');
-                }
+        refreshStylePresets().catch(e => console.warn('Style library unavailable:', e));
+    }, []);
+    const handleSaveStylePreset = async (preset: StylePreset) => {
+        await getStyleLibrary().save(preset);
+        await refreshStylePresets();
+    };
+    const handleRemoveStylePreset = async (id: string) => {
+        await getStyleLibrary().remove(id);
+        await refreshStylePresets();
+    };
+    const handleChangeDocumentStylePreset = (path: string, id: string | undefined) => {
+        setDocumentStylePresets(prev => {
+            const next = { ...prev };
+            if (id === undefined) delete next[path];
+            else next[path] = id;
+            return next;
+        });
+    };
+    const handleChangeStyleGuide = (change: Partial<StyleGuide>) => {
+        const next = { ...styleGuide, ...change };
+        setStyleGuide(next);
+        saveStyleGuide(next);
+    };
+    const refreshSubjects = async () => setSubjects(await getSubjectLibrary().list());
+    useEffect(() => {
+        refreshSubjects().catch(e => console.warn('Subject library unavailable:', e));
+    }, []);
+    const handleSaveSubject = async (subject: Subject) => {
+        await getSubjectLibrary().save(subject);
+        await refreshSubjects();
+    };
+    const handleRemoveSubject = async (id: string) => {
+        await getSubjectLibrary().remove(id);
+        await refreshSubjects();
+    };
 
-                const contextTemplate = await contextRes.text();
-                const descriptionTemplate = await descriptionRes.text();
-                const namingTemplate = await namingRes.text();
-                const imageDescribeTemplate = await imageDescribeRes.text();
-                
-                setTemplates({ context: contextTemplate, description: descriptionTemplate, naming: namingTemplate, imageDescribe: imageDescribeTemplate });
-            } catch (error) {
-                console.error("Error loading templates:", error);
-                setTemplateError('Could not load required prompt templates. Please refresh the page.');
-            }
-        };
-        loadTemplates();
+    useEffect(() => {
+        loadDefaultTemplates().then(setDefaultTemplates, error => {
+            console.error("Error loading templates:", error);
+            setTemplateError('Could not load required prompt templates. Please refresh the page.');
+        });
     }, []);
 
-    const handleMarkdownSelect = async (file: File | null) => {
-        if (!file) {
-            setMarkdownFile(null);
-            setMarkdownContent(null);
-            setMarkdownError('');
-            setImageReferences([]);
-            setCurrentReferenceIndex(null);
+    // Templates in use: saved variants where chosen, else the files
+    const templates = React.useMemo(() => defaultTemplates && activeTemplates(defaultTemplates, templateLibrary), [defaultTemplates, templateLibrary]);
+    useEffect(() => {
+        if (!templates) return;
+        hashText(TEMPLATE_NAMES.map(name => templates[name]).join('\0')).then(hash => setTemplateVersion(hash.slice(0, 12)));
+    }, [templates]);
+
+    const handleChangeTemplateLibrary = (library: TemplateLibrary) => {
+        setTemplateLibrary(library);
+        saveTemplateLibrary(library);
+    };
+
+    // Seeds the style options from the first document with a `bananamd:` front matter block; the UI can still change them
+    const applyDocumentDefaults = async (docs: MarkdownDocument[], zip: JSZip | null) => {
+        const doc = docs.find(d => d.config);
+        if (!doc?.config) return;
+        setConfigSource(doc.path);
+        if (doc.config.maintainStyle !== undefined) setMaintainStyle(doc.config.maintainStyle);
+        const stylePath = doc.config.styleImage && joinPath(dirname(doc.path), doc.config.styleImage);
+        const entry = stylePath && zip ? zip.file(stylePath) : null;
+        if (!entry) {
+            if (doc.config.styleImage) console.warn(`Style image "${doc.config.styleImage}" from the front matter was not found in the archive.`);
             return;
         }
+        const extension = stylePath!.split('.').pop()?.toLowerCase() || '';
+        const type = ['jpg', 'jpeg'].includes(extension) ? 'image/jpeg' : extension === 'webp' ? 'image/webp' : 'image/png';
+        setStyleImageFile(new File([await entry.async('blob')], basename(stylePath!), { type }));
+    };
+
+    const handleMarkdownSelect = async (file: File | null) => {
         setMarkdownFile(null);
-        setMarkdownContent(null);
+        setMarkdownPaths([]);
+        setSelectedMarkdownPaths([]);
+        setDocuments([]);
         setMarkdownError('');
         setImageReferences([]);
         setCurrentReferenceIndex(null);
+        setConfigSource(null);
+        if (!file) return;
 
         if (file.name.endsWith('.md')) {
             setMarkdownFile(file);
+            applyDocumentDefaults([readDocument(file.name, await file.text())], null);
             return;
         }
 
         if (file.name.endsWith('.zip')) {
             try {
                 const zip = await JSZip.loadAsync(file);
-                const fileNames = Object.keys(zip.files);
-                const hasMarkdown = fileNames.some(fileName => !zip.files[fileName].dir && fileName.endsWith('.md'));
+                const paths = listMarkdownPaths(zip);
 
-                if (hasMarkdown) {
+                if (paths.length) {
                     setMarkdownFile(file);
+                    setMarkdownPaths(paths);
+                    setSelectedMarkdownPaths(paths);
+                    await applyDocumentDefaults(await loadMarkdownDocuments(zip, paths), zip);
                 } else {
                     setMarkdownError('The .zip file must contain at least one .md file.');
                 }
@@ -387,39 +606,56 @@ export const App = () => {
         setMarkdownError('Invalid file type. Please upload a .md or .zip file.');
     };
 
+    // Context for an image at `range`: its own slide in a deck, otherwise 500 characters either side of it
+    const contextAround = (doc: MarkdownDocument, deck: SlideDeck | null, range: SourceRange): { context: string; slide?: Slide } => {
+        const slide = deck ? slideAt(deck, range.startIndex) : undefined;
+        if (deck && slide) return { context: slideContext(doc.content, deck, slide, range), slide };
+        const contextStart = Math.max(doc.bodyStart, range.startIndex - 500);
+        const contextEnd = Math.min(doc.content.length, range.startIndex + range.matchLength + 500);
+        return { context: doc.content.substring(contextStart, contextEnd) };
+    };
+
+    const requestSuggestions = async (docs: MarkdownDocument[], signal?: AbortSignal): Promise<ImageSuggestion[]> => {
+        if (!templates?.suggest) throw new Error('Suggestion template not loaded');
+        const provider = getProvider();
+        const found: ImageSuggestion[] = [];
+        for (const doc of docs) {
+            const prompt = fillTemplate(templates.suggest, {
+                file_content: numberLines(doc),
+                max_suggestions: String(Math.max(1, Math.min(8, Math.round(doc.content.length / 1500)))),
+            });
+            found.push(...parseSuggestions(await provider.completeText(prompt, { ...cacheOptions, signal }), doc));
+        }
+        return found;
+    };
+
     const parseAndFindReferences = async () => {
         if (!markdownFile) return;
         setIsParsing(true);
         setMarkdownError('');
         setImageReferences([]);
         setCurrentReferenceIndex(null);
-        generationTriggered.current.clear();
+        endSession();
+        // Started after endSession so a later Start over or re-parse drops this one's results
+        const task = startTask('parse');
 
         try {
-            let currentMarkdownContent = '';
             let zip: JSZip | null = null;
             let zipFilePaths: string[] = [];
+            let loadedDocuments: MarkdownDocument[] = [];
             const isZip = markdownFile.name.endsWith('.zip');
 
             if (isZip) {
+                if (!selectedMarkdownPaths.length) throw new Error('Select at least one .md file to illustrate.');
                 zip = await JSZip.loadAsync(markdownFile);
                 zipFilePaths = Object.keys(zip.files).filter(name => !zip.files[name].dir);
-                const mdFileEntry = Object.values(zip.files).find(
-                    file => !file.dir && file.name.endsWith('.md')
-                );
-
-                if (mdFileEntry) {
-                    currentMarkdownContent = await mdFileEntry.async('string');
-                    const base = (mdFileEntry.name.split('/').pop() || 'document.md');
-                    setMdBaseName(base);
-                } else {
-                    throw new Error('No .md file found in the .zip archive.');
-                }
+                loadedDocuments = await loadMarkdownDocuments(zip, selectedMarkdownPaths);
+                if (!loadedDocuments.length) throw new Error('No .md file found in the .zip archive.');
             } else {
-                currentMarkdownContent = await markdownFile.text();
-                setMdBaseName(markdownFile.name);
+                loadedDocuments = [readDocument(markdownFile.name, await markdownFile.text())];
             }
-            setMarkdownContent(currentMarkdownContent);
+            task.signal.throwIfAborted();
+            setDocuments(loadedDocuments);
 
             const references: ImageReference[] = [];
             const fetchImageAsDataUrl = async (url: string): Promise<string | null> => {
@@ -427,118 +663,105 @@ export const App = () => {
                     const res = await fetch(url, { mode: 'cors' });
                     if (!res.ok) return null;
                     const blob = await res.blob();
-                    const dataUrl = await new Promise<string>((resolve, reject) => {
-                        const reader = new FileReader();
-                        reader.onloadend = () => resolve(reader.result as string);
-                        reader.onerror = (e) => reject(e);
-                        reader.readAsDataURL(blob);
-                    });
-                    return /^data:image\/(png|jpeg|jpg|gif|webp);base64,/i.test(dataUrl) ? dataUrl : null;
+                    const dataUrl = await readAsDataUrl(blob);
+                    // Servers often send images as application/octet-stream, so trust the bytes first
+                    return toImageDataUrl(dataUrl.split(',')[1] || '', blob.type.startsWith('image/') ? blob.type : mimeFromExtension(url));
                 } catch {
                     return null;
                 }
             };
-            const markdownRegex = /!\[([^\]]*)\]\((.*?)\)/g;
-            let match;
-
-            while ((match = markdownRegex.exec(currentMarkdownContent)) !== null) {
-                const [fullMatch, rawAlt, rawPath] = match;
-                const pathParts = rawPath.split(/\s+(?=[\"'])/, 2);
-                let path = pathParts[0].trim();
-                if (path.startsWith('<') && path.endsWith('>')) path = path.slice(1, -1);
-                path = path.replace(/\\(.)/g, '$1');
-                const alt = rawAlt.replace(/\\(.)/g, '$1');
-                const matchIndex = match.index;
-                const contentBeforeMatch = currentMarkdownContent.substring(0, matchIndex);
-                const lineNumber = (contentBeforeMatch.match(/\n/g) || []).length + 1;
-                const contextStart = Math.max(0, matchIndex - 500);
-                const contextEnd = Math.min(currentMarkdownContent.length, matchIndex + fullMatch.length + 500);
-                const context = currentMarkdownContent.substring(contextStart, contextEnd);
-
-                let status: ImageReference['status'] = 'to-generate';
-                let originalImage: string | undefined = undefined;
-
-                if (isZip && zip) {
-                    const normalizedPath = path.startsWith('./') ? path.substring(2) : path;
-                    const imageFileInZipPath = zipFilePaths.find(p => p.endsWith(normalizedPath));
-                    if (imageFileInZipPath && zip.files[imageFileInZipPath]) {
-                        status = 'existing';
-                        const fileEntry = zip.files[imageFileInZipPath];
-                        const base64Data = await fileEntry.async('base64');
-                        const extension = imageFileInZipPath.split('.').pop()?.toLowerCase() || '';
-                        let mimeType = 'image/png';
-                        if (['jpg', 'jpeg'].includes(extension)) mimeType = 'image/jpeg';
-                        else if (extension === 'gif') mimeType = 'image/gif';
-                        else if (extension === 'webp') mimeType = 'image/webp';
-                        originalImage = `data:${mimeType};base64,${base64Data}`;
-                    }
-                } else {
-                    // Single .md case: if URL is remote or data URL, try to treat as existing
+            // Images inside a zip resolve against the folder of the document that references them;
+            // wiki embeds resolve by file name anywhere in the archive, like Obsidian vaults
+            const resolveZipImagePath = (documentPath: string, found: FoundImage): Pick<ImageReference, 'originalZipPath' | 'pathIssue'> => {
+                const resolution = found.syntax === 'wiki'
+                    ? resolveWikiTarget(found.path, documentPath, zipFilePaths)
+                    : resolveArchivePath(found.path, documentPath, zipFilePaths);
+                if (!resolution) return {};
+                return resolution.kind === 'found' ? { originalZipPath: resolution.path } : { pathIssue: resolution };
+            };
+            const readZipImage = async (imageFileInZipPath: string): Promise<string | undefined> => {
+                if (!zip) return undefined;
+                const base64Data = await zip.files[imageFileInZipPath].async('base64');
+                return toImageDataUrl(base64Data, mimeFromExtension(imageFileInZipPath)) || undefined;
+            };
+
+            for (const doc of loadedDocuments) {
+                const currentMarkdownContent = doc.content;
+                // Slide decks limit context to the image's own slide and size images for the deck
+                const deck = detectSlideDeck(currentMarkdownContent);
+                for (const found of findImageReferences(currentMarkdownContent)) {
+                    const { path } = found;
+                    // Front matter is configuration, not content
+                    if (found.startIndex < doc.bodyStart) continue;
+                    const { context, slide } = contextAround(doc, deck, found);
+
+                    let status: ImageReference['status'] = 'to-generate';
+                    let originalImage: string | undefined = undefined;
+                    let originalZipPath: string | undefined = undefined;
+                    let pathIssue: ImageReference['pathIssue'] = undefined;
+
+                    // Remote or data URL: try to treat as existing
                     if (/^data:image\//i.test(path)) {
-                        status = 'existing';
-                        originalImage = path;
+                        originalImage = toBase64DataUrl(path) || undefined;
+                        if (originalImage) status = 'existing';
                     } else if (/^https?:\/\//i.test(path)) {
                         const data = await fetchImageAsDataUrl(path);
                         if (data) {
                             status = 'existing';
                             originalImage = data;
                         }
+                    } else if (isZip && zip) {
+                        ({ originalZipPath, pathIssue } = resolveZipImagePath(doc.path, found));
+                        originalImage = originalZipPath ? await readZipImage(originalZipPath) : undefined;
+                        if (originalImage) status = 'existing';
                     }
+                    // Per-image directives override the deck size and can skip, keep or force regeneration
+                    const foundDirectives = findDirectives(currentMarkdownContent, found);
+                    const directives = foundDirectives?.directives;
+                    if (directives?.regenerate) status = 'to-generate';
+                    let outcome: ImageReference['outcome'] = directives?.skip ? 'skip' : directives?.keepOriginal ? 'keep-original' : undefined;
+                    const prepared = originalImage && status === 'existing' && !outcome ? await prepareOriginal(originalImage) : {};
+                    // An original that cannot be sent to the model is kept as is rather than lost
+                    if (prepared.formatIssue) outcome = 'keep-original';
+
+                    // Keep document order, then source order within each document, in one combined queue
+                    references.push({
+                        ...found,
+                        documentPath: doc.path,
+                        context,
+                        status,
+                        originalImage,
+                        originalZipPath,
+                        ...prepared,
+                        pathIssue,
+                        slideNumber: slide?.number,
+                        aspectRatio: directives?.aspectRatio || doc.config?.aspectRatio || deck?.aspectRatio,
+                        outputSize: directives?.size || doc.config?.imageSize,
+                        fit: directives?.fit || doc.config?.imageFit,
+                        directives,
+                        directiveRange: foundDirectives?.commentRange,
+                        outcome,
+                    });
                 }
-                references.push({ lineNumber, alt, path, context, status, originalImage, startIndex: matchIndex, matchLength: fullMatch.length, syntax: 'markdown' });
             }
 
-            const htmlImgRegex = /<img([^>]+)>/gi;
-            while ((match = htmlImgRegex.exec(currentMarkdownContent)) !== null) {
-                const [fullMatch, attrsString] = match;
-                if (!attrsString) continue;
-                const srcMatch = attrsString.match(/src\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
-                const altMatch = attrsString.match(/alt\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*))/i);
-                const path = srcMatch ? srcMatch[1] || srcMatch[2] || srcMatch[3] : null;
-
-                if (path) {
-                    const alt = altMatch ? altMatch[1] || altMatch[2] || altMatch[3] || '' : '';
-                    const matchIndex = match.index;
-                    const contentBeforeMatch = currentMarkdownContent.substring(0, matchIndex);
-                    const lineNumber = (contentBeforeMatch.match(/\n/g) || []).length + 1;
-                    const contextStart = Math.max(0, matchIndex - 500);
-                    const contextEnd = Math.min(currentMarkdownContent.length, matchIndex + fullMatch.length + 500);
-                    const context = currentMarkdownContent.substring(contextStart, contextEnd);
-                    
-                    let status: ImageReference['status'] = 'to-generate';
-                    let originalImage: string | undefined = undefined;
-
-                    if (isZip && zip) {
-                        const normalizedPath = path.startsWith('./') ? path.substring(2) : path;
-                        const imageFileInZipPath = zipFilePaths.find(p => p.endsWith(normalizedPath));
-                        if (imageFileInZipPath && zip.files[imageFileInZipPath]) {
-                            status = 'existing';
-                            const fileEntry = zip.files[imageFileInZipPath];
-                            const base64Data = await fileEntry.async('base64');
-                            const extension = imageFileInZipPath.split('.').pop()?.toLowerCase() || '';
-                            let mimeType = 'image/png';
-                            if (['jpg', 'jpeg'].includes(extension)) mimeType = 'image/jpeg';
-                            else if (extension === 'gif') mimeType = 'image/gif';
-                            else if (extension === 'webp') mimeType = 'image/webp';
-                            originalImage = `data:${mimeType};base64,${base64Data}`;
-                        }
-                    } else {
-                        if (/^data:image\//i.test(path)) {
-                            status = 'existing';
-                            originalImage = path;
-                        } else if (/^https?:\/\//i.test(path)) {
-                            const data = await fetchImageAsDataUrl(path);
-                            if (data) {
-                                status = 'existing';
-                                originalImage = data;
-                            }
-                        }
-                    }
-                    references.push({ lineNumber, alt, path, context, status, originalImage, startIndex: matchIndex, matchLength: fullMatch.length, syntax: 'html' });
+            // Documents without any image get suggested insertion points to review first
+            const unillustrated = loadedDocuments.filter(doc => !references.some(ref => ref.documentPath === doc.path));
+            if (unillustrated.length && (autoIllustrate || !references.length)) {
+                setIsSuggesting(true);
+                const proposed = await requestSuggestions(unillustrated, task.signal).finally(() => {
+                    if (task.isCurrent()) setIsSuggesting(false);
+                });
+                if (proposed.length) {
+                    setPendingReferences(references);
+                    setSuggestions(proposed);
+                    setView('review');
+                    return;
                 }
+                if (!references.length) throw new Error('No image references were found, and Gemini did not suggest any places for images.');
             }
 
-            references.sort((a, b) => a.lineNumber - b.lineNumber);
+            task.signal.throwIfAborted();
             setImageReferences(references);
             if(references.length > 0) {
                 setCurrentReferenceIndex(0);
@@ -546,24 +769,72 @@ export const App = () => {
             }
 
         } catch (error) {
+            if (!task.isCurrent()) return;
             console.error("Error processing markdown file:", error);
-            const message = error instanceof Error ? error.message : 'An unexpected error occurred during processing.';
-            setMarkdownError(message);
+            setMarkdownError(describeError(error, 'An unexpected error occurred during processing.'));
         } finally {
-            setIsParsing(false);
+            task.finish();
+            if (task.isCurrent()) setIsParsing(false);
         }
     };
 
+    const handleAcceptSuggestions = (accepted: ImageSuggestion[]) => {
+        const synthetic: ImageReference[] = accepted.map(suggestion => {
+            const doc = documents.find(d => d.path === suggestion.documentPath)!;
+            const deck = detectSlideDeck(doc.content);
+            const { context, slide } = contextAround(doc, deck, { startIndex: suggestion.insertAt, matchLength: 0 });
+            return {
+                documentPath: doc.path,
+                lineNumber: suggestion.lineNumber,
+                alt: suggestion.alt,
+                path: '',
+                context,
+                startIndex: suggestion.insertAt,
+                matchLength: 0,
+                syntax: 'markdown',
+                insertion: true,
+                rationale: suggestion.rationale,
+                status: 'to-generate',
+                slideNumber: slide?.number,
+                aspectRatio: doc.config?.aspectRatio || deck?.aspectRatio,
+                outputSize: doc.config?.imageSize,
+                fit: doc.config?.imageFit,
+            };
+        });
+        // Keep document order, then position within each document
+        const documentOrder = (ref: ImageReference) => documents.findIndex(d => d.path === ref.documentPath);
+        const references = [...pendingReferences, ...synthetic]
+            .sort((a, b) => documentOrder(a) - documentOrder(b) || (a.startIndex || 0) - (b.startIndex || 0));
+        setPendingReferences([]);
+        setSuggestions([]);
+        setImageReferences(references);
+        setCurrentReferenceIndex(0);
+        setView('generation');
+    };
+
+    const handleCancelSuggestions = () => {
+        setPendingReferences([]);
+        setSuggestions([]);
+        setView('upload');
+    };
+
     const handleStartOver = () => {
         setView('upload');
         setMarkdownFile(null);
-        setMarkdownContent(null);
+        setMarkdownPaths([]);
+        setSelectedMarkdownPaths([]);
+        setDocuments([]);
+        setConfigSource(null);
+        setSuggestions([]);
+        setPendingReferences([]);
         setStyleImageFile(null);
         setMaintainStyle(false);
         setImageReferences([]);
         setCurrentReferenceIndex(null);
         setMarkdownError('');
-        generationTriggered.current.clear();
+        setIsParsing(false);
+        setIsSuggesting(false);
+        endSession();
         // reset export
         setExporting(false);
         setExportError('');
@@ -573,224 +844,249 @@ export const App = () => {
         exportTriggered.current = false;
     };
     
-    useEffect(() => {
-        const triggerGenerationForIndex = async (index: number) => {
-            if (generationTriggered.current.has(index)) return;
-            
-            const ref = imageReferences[index];
-            if (!ref) return;
+    // References still waiting for proposals; ambiguous originals wait for the user to pick one
+    const needsGeneration = (ref: ImageReference): boolean =>
+        !ref.outcome && ref.pathIssue?.kind !== 'ambiguous' && !ref.generatedImages;
+
+    const createInitialHistory = (img: string | null | undefined, prompt?: string, rephrasedFrom?: string): ImageHistory | null => {
+        if (!img) return null;
+        const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const node: ImageVersionNode = {
+            id,
+            imageData: img,
+            parentId: null,
+            childrenIds: [],
+            createdAt: Date.now(),
+            prompt,
+            rephrasedFrom,
+        };
+        return {
+            nodes: { [id]: node },
+            rootId: id,
+            currentId: id,
+            order: [id],
+        };
+    };
 
-            generationTriggered.current.add(index);
-            
-            try {
-                if (!templates || !markdownContent) throw new Error("Templates or markdown file not ready.");
-                const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                let styleImagePart: Part | undefined = styleReferenceImage;
-                if (!styleImagePart && styleImageFile) {
-                    try { styleImagePart = await fileToGenerativePart(styleImageFile); } catch (e) { console.error("Could not process style image:", e); }
-                }
+    /** Asks the text model to reword a refused prompt within policy, keeping what it was meant to show. */
+    const rephrasePrompt = async (provider: GenerationProvider, ref: ImageReference, prompt: string, failure: SlotFailure, signal?: AbortSignal): Promise<string> => {
+        if (!templates?.rephrase) throw new Error('Rephrase template not loaded');
+        const refusal = [
+            failure.message,
+            failure.refusal?.categories.length ? `Flagged: ${failure.refusal.categories.map(formatSafetyCategory).join(', ')}.` : '',
+            failure.refusal?.modelText ? `The model said: ${failure.refusal.modelText}` : '',
+        ].filter(Boolean).join('\n');
+        const tpl = fillTemplate(templates.rephrase, { refusal, style_guide: styleGuideFor(ref) || 'None', prompt });
+        return (await draftPrompts(provider, tpl, 1, signal))[0];
+    };
 
-                // Branch: existing image → left: improve; right: new-from-description
-                if (ref.status === 'existing') {
-                    setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, isGeneratingImproved: true, improvedError: '', isGeneratingVariation: true, variationError: '' } : r));
-
-                    // Left image: improved/stylized version of the original (uses explicit base+style variation path)
-                    const improveInstruction = ref.alt || '';
-                    const improvedRaw = await generateImageVariation(
-                        ai,
-                        ref.originalImage!,
-                        improveInstruction,
-                        styleImagePart
-                    ).catch(e => {
-                        console.error('Improve failed:', e);
-                        return null;
-                    });
+    // Up to `count` prompts from a drafting template's JSON answer
+    const draftPrompts = (provider: GenerationProvider, prompt: string, count: number, signal?: AbortSignal): Promise<string[]> =>
+        requestStructured(provider, options => provider.completeText(prompt, options), promptListSchema(count), readPromptList(count), { ...cacheOptions, signal });
+
+    // Reference fields for a freshly generated set of slots
+    const slotResultFields = (results: SlotResult[]): Partial<ImageReference> => {
+        const images = results.map(result => normalizeImage(result.image));
+        return {
+            generatedImages: images,
+            proposedPrompts: results.map(result => result.prompt),
+            histories: images.map((img, i) => createInitialHistory(img, results[i].prompt, results[i].rephrasedFrom)),
+            slotFailures: results.map(result => result.failure ?? null),
+        };
+    };
+
+    /** Drafts prompts and generates the proposals for one reference. Run by the generation queue. */
+    const generateReference = async (index: number): Promise<boolean> => {
+        const ref = imageReferences[index];
+        if (!ref || !needsGeneration(ref)) return false;
+        const task = startTask(`generate:${index}`);
+        const { signal } = task;
+        // Cancelled or stale runs never write back; the canceller resets the reference itself
+        const updateReference = (update: (r: ImageReference) => ImageReference) => {
+            if (task.isCurrent()) setImageReferences(prev => prev.map((r, i) => i === index ? update(r) : r));
+        };
 
-                    const normalizeImage = (img: string | null): string | null => {
-                        if (!img || typeof img !== 'string') return null;
-                        const looksLikeDataUrl = /^data:image\/(png|jpeg|jpg|webp|gif);base64,/i.test(img);
-                        if (!looksLikeDataUrl) return null;
-                        if (img.length < 200) return null;
-                        return img;
-                    };
-                    const improved = normalizeImage(improvedRaw);
+        try {
+            const doc = documents.find(d => d.path === ref.documentPath);
+            // Prompts see the document body only; the front matter holds BananaMD's own settings
+            const markdownContent = doc?.content.slice(doc.bodyStart);
+            if (!templates || !markdownContent) throw new Error("Templates or markdown file not ready.");
+            const provider = getProvider();
+            const styleImages = await styleImagesFor(ref);
+
+            const count = proposalCountFor(ref);
+            const generate = (p: string) => provider.generateImage(p, styleImages, { ...imageOptionsFor(ref), signal });
+            // Failed slots keep why; a refused prompt is rephrased and tried once more when that is switched on
+            const generateFromPrompt = async (p: string): Promise<SlotResult> => {
+                let failure: SlotFailure;
+                try {
+                    return { prompt: p, image: await generate(p) };
+                } catch (e) {
+                    console.error(`Image generation failed for prompt: "${p}"`, e);
+                    failure = slotFailure(e);
+                }
+                if (!autoRephrase || !failure.refusal || signal.aborted) return { prompt: p, image: null, failure };
+                let rephrased: string | undefined;
+                try {
+                    rephrased = await rephrasePrompt(provider, ref, p, failure, signal);
+                    return { prompt: rephrased, rephrasedFrom: p, image: await generate(rephrased) };
+                } catch (e) {
+                    console.error(`Rephrased generation failed for prompt: "${p}"`, e);
+                    return { prompt: rephrased || p, rephrasedFrom: rephrased && p, image: null, failure: slotFailure(e) };
+                }
+            };
 
-                    // Right image: new-from-description
+            // Existing image: slot 0 improves the original, the other slots are new images from its description
+            if (ref.status === 'existing') {
+                updateReference(r => ({ ...r, isGeneratingImages: true, generationError: '' }));
+
+                const improvedPrompt = styleImages.length
+                  ? `Redraw the BASE image entirely in the artistic style of the attached reference${styleImages.length > 1 ? 's' : ''}. Preserve composition and core subjects.${ref.alt ? ` Context: "${ref.alt}".` : ''}`
+                  : `Improve this image: enhance clarity, lighting, dynamic range, and detail; preserve composition and subject.${ref.alt ? ` Context: "${ref.alt}".` : ''}`;
+                const improvedPromise = provider.generateVariation(
+                    modelImageFor(ref),
+                    ref.alt || '',
+                    styleImages,
+                    { ...imageOptionsFor(ref), signal }
+                ).then((image): SlotResult => ({ prompt: improvedPrompt, image }), (e): SlotResult => {
+                    console.error('Improve failed:', e);
+                    return { prompt: improvedPrompt, image: null, failure: slotFailure(e) };
+                });
+
+                const fromDescription = async (): Promise<SlotResult[]> => {
+                    if (count < 2) return [];
                     let describeText = '';
                     try {
-                        const imagePart = (() => {
-                            const { mimeType, base64 } = parseDataUrl(ref.originalImage!);
-                            return { inlineData: { mimeType, data: base64 } } as any;
-                        })();
-                        const describePrompt = templates.imageDescribe
-                            .replace('{context}', ref.context || '')
-                            .replace('{user_alt}', ref.alt || '');
-                        const describeResp = await generateContentWithRetry(ai, { model: 'gemini-2.5-flash', contents: { parts: [imagePart, { text: describePrompt }] } });
-                        const textOut = typeof (describeResp as any).text === 'function' ? await (describeResp as any).text() : String((describeResp as any).text || '');
-                        describeText = textOut.trim();
+                        const describePrompt = fillTemplate(templates.imageDescribe, { context: ref.context || '', user_alt: ref.alt || '' });
+                        describeText = (await provider.describeImage(modelImageFor(ref), describePrompt, { ...cacheOptions, signal })).trim();
                     } catch (e) {
                         console.error('Describe image failed:', e);
                     }
-
-                    let newPrompt = '';
+                    let prompts: string[];
                     try {
-                        const tpl = templates.description.replace('{alt_text}', describeText || ref.alt || '');
-                        const resp = await generateContentWithRetry(ai, { model: 'gemini-2.5-flash', contents: tpl });
-                        const txt = typeof (resp as any).text === 'function' ? await (resp as any).text() : String((resp as any).text || '');
-                        const prompt1Match = txt.match(/<prompt_1>([\s\S]*?)<\/prompt_1>/);
-                        newPrompt = (prompt1Match?.[1] || '').trim();
+                        const tpl = fillTemplate(templates.description, {
+                            alt_text: describeText || ref.alt || '',
+                            style_guide: styleGuideFor(ref) || 'None',
+                            count: String(count - 1),
+                        });
+                        prompts = await draftPrompts(provider, tpl, count - 1, signal);
                     } catch (e) {
+                        if (signal.aborted) throw e;
                         console.error('Prompt from description failed:', e);
+                        // The description slots fail with the reason, the improved original still comes through
+                        return Array.from({ length: count - 1 }, () => ({ prompt: '', image: null, failure: slotFailure(e) }));
                     }
+                    return Promise.all(prompts.map(generateFromPrompt));
+                };
 
-                    const rightRaw = newPrompt ? await generateImageFromPrompt(ai, newPrompt, styleImagePart).catch(e => { console.error('New image generation failed:', e); return null; }) : null;
-                    const right = normalizeImage(rightRaw);
-
-                    setImageReferences(prev => prev.map((r, i) => {
-                        if (i !== index) return r;
-                        // Init histories
-                        const histories: [ImageHistory | null, ImageHistory | null] = [null, null];
-                        if (improved) {
-                            const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-                            const node: ImageVersionNode = { id, imageData: improved, parentId: null, childrenIds: [], createdAt: Date.now() };
-                            histories[0] = { nodes: { [id]: node }, rootId: id, currentId: id, order: [id] };
-                        }
-                        if (right) {
-                            const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-                            const node: ImageVersionNode = { id, imageData: right, parentId: null, childrenIds: [], createdAt: Date.now() };
-                            histories[1] = { nodes: { [id]: node }, rootId: id, currentId: id, order: [id] };
-                        }
-                        const improvedPrompt = styleImagePart
-                          ? `Redraw the BASE image entirely in the artistic style of the attached reference. Preserve composition and core subjects.${ref.alt ? ` Context: "${ref.alt}".` : ''}`
-                          : `Improve this image: enhance clarity, lighting, dynamic range, and detail; preserve composition and subject.${ref.alt ? ` Context: "${ref.alt}".` : ''}`;
-                        const proposedPrompts: [string, string] = [improvedPrompt, newPrompt || ''];
-                        return { ...r, isGeneratingImproved: false, isGeneratingVariation: false, generatedImproved: improved || null, generatedVariation: right || null, histories, proposedPrompts };
-                    }));
-                    return;
-                }
+                const [improved, described] = await Promise.all([improvedPromise, fromDescription()]);
+                signal.throwIfAborted();
+                // Slots the answer drafted no prompt for stay empty and show as failed
+                const missingPrompt: SlotFailure = { message: `Gemini drafted ${described.length} of the ${count - 1} prompts asked for, so this slot has none.`, kind: 'invalid-response' };
+                const results = [improved, ...Array.from({ length: count - 1 }, (_, i): SlotResult => described[i] || { prompt: '', image: null, failure: missingPrompt })];
+                updateReference(r => ({ ...r, isGeneratingImages: false, ...slotResultFields(results) }));
+                return true;
+            }
 
-                // Default branch: to-generate → generate 2 proposals
-                // Step 1: Generate Prompts
-                setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, isGeneratingPrompts: true, generationError: '' } : r));
+            // Default branch: to-generate → one image per drafted prompt
+            // Step 1: Generate Prompts
+            updateReference(r => ({ ...r, isGeneratingPrompts: true, generationError: '' }));
 
-                const generatePrompts = async (currentRef: ImageReference): Promise<[string, string]> => {
-                    let template = currentRef.alt ? templates.description : templates.context;
-                    let prompt = currentRef.alt 
-                        ? template.replace('{alt_text}', currentRef.alt)
-                        : template.replace('{file_content}', markdownContent).replace('{context}', currentRef.context);
-                    
-                    const response = await generateContentWithRetry(ai, { model: "gemini-2.5-flash", contents: prompt });
-                    const textOut = typeof (response as any).text === 'function'
-                        ? await (response as any).text()
-                        : String((response as any).text || '');
-                    const responseText = textOut.trim();
-                    const prompt1Match = responseText.match(/<prompt_1>([\s\S]*?)<\/prompt_1>/);
-                    const prompt2Match = responseText.match(/<prompt_2>([\s\S]*?)<\/prompt_2>/);
-                    if (!prompt1Match || !prompt2Match) throw new Error("Could not parse prompts from the AI response.");
-                    return [prompt1Match[1].trim(), prompt2Match[1].trim()];
-                };
-                
-                const prompts = await generatePrompts(ref);
-                
-                setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, isGeneratingPrompts: false, proposedPrompts: prompts, isGeneratingImages: true } : r));
-
-                // Step 2: Generate Images
-                const imagePromises = prompts.map(p => 
-                    generateImageFromPrompt(ai, p, styleImagePart).catch(e => {
-                        console.error(`Image generation failed for prompt: "${p}"`, e);
-                        return null;
-                    })
-                );
-                const [rawImage1, rawImage2] = await Promise.all(imagePromises);
-
-                const normalizeImage = (img: string | null): string | null => {
-                    if (!img || typeof img !== 'string') return null;
-                    const looksLikeDataUrl = /^data:image\/(png|jpeg|jpg|webp|gif);base64,/i.test(img);
-                    if (!looksLikeDataUrl) return null;
-                    // Basic size sanity check to avoid empty payloads that render invisibly
-                    if (img.length < 200) return null;
-                    return img;
-                };
-                const image1 = normalizeImage(rawImage1);
-                const image2 = normalizeImage(rawImage2);
+            const values = { style_guide: styleGuideFor(ref) || 'None', count: String(count) };
+            const prompt = ref.alt
+                ? fillTemplate(templates.description, { ...values, alt_text: ref.alt })
+                : fillTemplate(templates.context, { ...values, file_content: markdownContent, context: ref.context });
+            const prompts = await draftPrompts(provider, prompt, count, signal);
 
-                const createInitialHistory = (img: string | null | undefined): ImageHistory | null => {
-                    if (!img) return null;
-                    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-                    const node: ImageVersionNode = {
-                        id,
-                        imageData: img,
-                        parentId: null,
-                        childrenIds: [],
-                        createdAt: Date.now(),
-                    };
-                    return {
-                        nodes: { [id]: node },
-                        rootId: id,
-                        currentId: id,
-                        order: [id],
-                    };
-                };
+            updateReference(r => ({ ...r, isGeneratingPrompts: false, proposedPrompts: prompts, isGeneratingImages: true }));
 
-                setImageReferences(prev => prev.map((r, i) => {
-                    if (i !== index) return r;
-                    const histories: [ImageHistory | null, ImageHistory | null] = [
-                        createInitialHistory(image1),
-                        createInitialHistory(image2)
-                    ];
-                    return { ...r, isGeneratingImages: false, generatedImages: [image1, image2], histories };
-                }));
-            } catch (error) {
-                console.error(`Failed to process image for L${ref.lineNumber} (path: ${ref.path}):`, error);
-                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during generation.";
-                setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, isGeneratingPrompts: false, isGeneratingImages: false, generationError: errorMessage } : r));
-            }
-        };
+            // Step 2: Generate Images
+            const results = await Promise.all(prompts.map(generateFromPrompt));
+            signal.throwIfAborted();
 
-        if (currentReferenceIndex !== null) {
-            triggerGenerationForIndex(currentReferenceIndex);
+            updateReference(r => ({ ...r, isGeneratingImages: false, ...slotResultFields(results) }));
+            return true;
+        } catch (error) {
+            // Marks the job as cancelled in the queue
+            if (signal.aborted) throw signal.reason;
+            console.error(`Failed to process image for L${ref.lineNumber} (path: ${ref.path}):`, error);
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during generation.";
+            updateReference(r => ({ ...r, isGeneratingPrompts: false, isGeneratingImages: false, generationError: errorMessage, generationErrorKind: errorKind(error) }));
+            // Marks the job as failed in the queue
+            throw error;
+        } finally {
+            task.finish();
+        }
+    };
+
+    // The queue outlives renders, so it always calls the latest generateReference
+    const generateReferenceRef = useRef(generateReference);
+    generateReferenceRef.current = generateReference;
+    const [generationQueue] = useState(() => createJobQueue<number>({
+        concurrency: 2,
+        run: index => generateReferenceRef.current(index),
+        onStateChange: (index, queueState) => setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, queueState } : r)),
+    }));
+
+    // With "maintain style", background generation waits until the first pick sets the style reference
+    const waitingForStyle = maintainStyle && !styleReferenceImage;
+
+    useEffect(() => {
+        if (view !== 'generation' || !templates) return;
+        if (!waitingForStyle) {
+            generationQueue.enqueue(imageReferences.flatMap((ref, i) => needsGeneration(ref) ? [i] : []));
         }
-    }, [currentReferenceIndex, imageReferences, templates, markdownContent, styleImageFile]);
+        // The reference on screen never waits behind background work
+        if (currentReferenceIndex !== null && imageReferences[currentReferenceIndex] && needsGeneration(imageReferences[currentReferenceIndex])) {
+            generationQueue.prioritize(currentReferenceIndex);
+        }
+    }, [view, templates, imageReferences, currentReferenceIndex, waitingForStyle, generationQueue]);
+
+    useEffect(() => {
+        if (queuePaused) generationQueue.pause();
+        else generationQueue.resume();
+    }, [queuePaused, generationQueue]);
+
+    useEffect(() => {
+        generationQueue.setConcurrency(queueConcurrency);
+    }, [queueConcurrency, generationQueue]);
 
     const handleGenerateVariation = async (refToUpdate: ImageReference) => {
         if (!refToUpdate.originalImage) return;
+        const task = startTask(`slot:${imageReferences.findIndex(r => r.documentPath === refToUpdate.documentPath && r.lineNumber === refToUpdate.lineNumber)}:0`);
     
-        setImageReferences(prev => prev.map(r => r.lineNumber === refToUpdate.lineNumber ? { ...r, isGeneratingVariation: true, variationError: '' } : r));
+        setImageReferences(prev => prev.map(r => r.documentPath === refToUpdate.documentPath && r.lineNumber === refToUpdate.lineNumber ? { ...r, isRetrying: true, generationError: '' } : r));
     
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            let styleImagePart: Part | undefined = styleReferenceImage;
-            if (!styleImagePart && styleImageFile) {
-                try {
-                    styleImagePart = await fileToGenerativePart(styleImageFile);
-                } catch (e) {
-                    console.error("Could not process style image:", e);
-                }
-            }
-            const variationRaw = await generateImageVariation(ai, refToUpdate.originalImage, refToUpdate.alt, styleImagePart);
-            const normalizeImage = (img: string | null): string | null => {
-                if (!img || typeof img !== 'string') return null;
-                const looksLikeDataUrl = /^data:image\/(png|jpeg|jpg|webp|gif);base64,/i.test(img);
-                if (!looksLikeDataUrl) return null;
-                if (img.length < 200) return null;
-                return img;
-            };
+            const provider = getProvider();
+            const styleImages = await styleImagesFor(refToUpdate);
+            const variationRaw = await provider.generateVariation(modelImageFor(refToUpdate), refToUpdate.alt, styleImages, { ...imageOptionsFor(refToUpdate), signal: task.signal, bypassCache: true });
+            if (!task.isCurrent()) return;
             const variation = normalizeImage(variationRaw);
             setImageReferences(prev => prev.map(r => {
-                if (r.lineNumber !== refToUpdate.lineNumber) return r;
-                // Initialize history for variation slot (index 1)
-                const histories = r.histories ? [...r.histories] as [ImageHistory | null, ImageHistory | null] : [null, null];
-                if (!histories[1] && variation) {
+                if (r.documentPath !== refToUpdate.documentPath || r.lineNumber !== refToUpdate.lineNumber) return r;
+                // Initialize history for the improved-original slot (index 0)
+                const histories = r.histories ? [...r.histories] : [];
+                if (!histories[0] && variation) {
                     const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
                     const node: ImageVersionNode = { id, imageData: variation, parentId: null, childrenIds: [], createdAt: Date.now() };
-                    histories[1] = { nodes: { [id]: node }, rootId: id, currentId: id, order: [id] };
+                    histories[0] = { nodes: { [id]: node }, rootId: id, currentId: id, order: [id] };
                 }
-                return { ...r, isGeneratingVariation: false, generatedVariation: variation, histories };
+                const generatedImages = r.generatedImages ? [...r.generatedImages] : [];
+                generatedImages[0] = variation;
+                const loadErrors = r.loadErrors ? [...r.loadErrors] : [];
+                loadErrors[0] = false;
+                const slotFailures = r.slotFailures ? [...r.slotFailures] : [];
+                slotFailures[0] = null;
+                return { ...r, isRetrying: false, generatedImages, histories, loadErrors, slotFailures };
             }));
         } catch (error) {
+            if (!task.isCurrent()) return;
             console.error(`Failed to generate variation for L${refToUpdate.lineNumber}:`, error);
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-            setImageReferences(prev => prev.map(r => r.lineNumber === refToUpdate.lineNumber ? { ...r, isGeneratingVariation: false, variationError: errorMessage } : r));
+            setImageReferences(prev => prev.map(r => r.documentPath === refToUpdate.documentPath && r.lineNumber === refToUpdate.lineNumber ? { ...r, isRetrying: false, generationError: errorMessage, generationErrorKind: errorKind(error) } : r));
+        } finally {
+            task.finish();
         }
     };
 
@@ -806,21 +1102,7 @@ export const App = () => {
         // If maintaining style and first selection, capture the picked image as style reference
         if (maintainStyle && currentReferenceIndex === 0 && !styleReferenceImage) {
             const ref = imageReferences[currentReferenceIndex];
-            let selectedImage: string | null | undefined = null;
-            if (ref.status === 'to-generate') {
-                // Prefer history current if exists, else the generated option
-                const history = ref.histories?.[imageIndex] || null;
-                selectedImage = history ? history.nodes[history.currentId].imageData : ref.generatedImages?.[imageIndex];
-            } else {
-                // existing: 0=original, 1=variation
-                if (imageIndex === 0) {
-                    const history = ref.histories?.[0] || null;
-                    selectedImage = history ? history.nodes[history.currentId].imageData : (ref.originalImage || null);
-                } else {
-                    const history = ref.histories?.[1] || null;
-                    selectedImage = history ? history.nodes[history.currentId].imageData : (ref.generatedVariation || null);
-                }
-            }
+            const selectedImage = slotImage(ref, imageIndex);
             if (selectedImage) {
                 const mimeType = selectedImage.substring(selectedImage.indexOf(":") + 1, selectedImage.indexOf(";"));
                 const data = selectedImage.split(',')[1];
@@ -839,110 +1121,101 @@ export const App = () => {
 
     const handleRegenerateImage = async (imageIndex: number) => {
         if (currentReferenceIndex === null) return;
+        const index = currentReferenceIndex;
+        const reference = imageReferences[index];
+        // The first slot of an existing image is a variation of the original, not a prompt
+        if (reference.status === 'existing' && imageIndex === 0) {
+            return handleGenerateVariation(reference);
+        }
 
-        const updatedReferences = [...imageReferences];
-        updatedReferences[currentReferenceIndex].isRetrying = true;
-        setImageReferences(updatedReferences);
-
-        const reference = imageReferences[currentReferenceIndex];
         const prompt = reference.proposedPrompts?.[imageIndex];
-
         if (!prompt) {
             console.error("Could not find prompt for regeneration.");
-            updatedReferences[currentReferenceIndex].isRetrying = false;
-            setImageReferences(updatedReferences);
             return;
         }
 
+        const task = startTask(`slot:${index}:${imageIndex}`);
+        // Only this reference is written, so queue results landing meanwhile are kept; stale runs never write
+        const updateReference = (update: (r: ImageReference) => ImageReference) => {
+            if (task.isCurrent()) setImageReferences(prev => prev.map((r, i) => i === index ? update(r) : r));
+        };
+        updateReference(r => ({ ...r, isRetrying: true }));
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            let styleImagePart: Part | undefined = styleReferenceImage;
-            if (!styleImagePart && styleImageFile) {
-                try {
-                    styleImagePart = await fileToGenerativePart(styleImageFile);
-                } catch (e) {
-                    console.error("Could not process style image:", e);
-                }
-            }
+            const provider = getProvider();
+            const styleImages = await styleImagesFor(reference);
 
-            const newImageRaw = await generateImageFromPrompt(ai, prompt, styleImagePart);
-            const normalizeImage = (img: string | null): string | null => {
-                if (!img || typeof img !== 'string') return null;
-                const looksLikeDataUrl = /^data:image\/(png|jpeg|jpg|webp|gif);base64,/i.test(img);
-                if (!looksLikeDataUrl) return null;
-                if (img.length < 200) return null;
-                return img;
-            };
+            const newImageRaw = await provider.generateImage(prompt, styleImages, { ...imageOptionsFor(reference), signal: task.signal, bypassCache: true });
+            task.signal.throwIfAborted();
             const newImage = normalizeImage(newImageRaw);
 
-            if (updatedReferences[currentReferenceIndex].generatedImages) {
-                updatedReferences[currentReferenceIndex].generatedImages![imageIndex] = newImage;
-            }
-
+            updateReference(r => {
+                if (!r.generatedImages) return { ...r, isRetrying: false };
+                const generatedImages = [...r.generatedImages];
+                generatedImages[imageIndex] = newImage;
+                // Show the new image rather than an older edited version, and forget earlier load failures
+                const histories = r.histories && [...r.histories];
+                if (histories) histories[imageIndex] = createInitialHistory(newImage, prompt);
+                const loadErrors = r.loadErrors && [...r.loadErrors];
+                if (loadErrors) loadErrors[imageIndex] = false;
+                const slotFailures = r.slotFailures && [...r.slotFailures];
+                if (slotFailures) slotFailures[imageIndex] = null;
+                return { ...r, generatedImages, histories, loadErrors, slotFailures, isRetrying: false };
+            });
         } catch (error) {
-            console.error(`Failed to regenerate image for L${reference.lineNumber}:`, error);
+            if (task.isCurrent()) console.error(`Failed to regenerate image for L${reference.lineNumber}:`, error);
+            updateReference(r => {
+                const slotFailures = [...(r.slotFailures || [])];
+                slotFailures[imageIndex] = slotFailure(error);
+                return { ...r, slotFailures, isRetrying: false };
+            });
         } finally {
-            updatedReferences[currentReferenceIndex].isRetrying = false;
-            setImageReferences(updatedReferences);
+            task.finish();
         }
     };
 
-    const handleEditInstruction = async (imageIndex: 0 | 1, instruction: string) => {
+    // With a mask, only that region may change: the model is told so, and the untouched pixels are put back
+    const handleEditInstruction = async (imageIndex: number, instruction: string, mask?: string) => {
         if (currentReferenceIndex === null) return;
-        const ref = imageReferences[currentReferenceIndex];
+        const index = currentReferenceIndex;
+        const ref = imageReferences[index];
         if (!ref) return;
 
-        const updated = [...imageReferences];
-        // Ensure history exists for the chosen image index
-        if (!updated[currentReferenceIndex].histories) {
-            const initHistory = (img: string | null | undefined): ImageHistory | null => {
-                if (!img) return null;
-                const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-                const node: ImageVersionNode = { id, imageData: img, parentId: null, childrenIds: [], createdAt: Date.now() };
-                return { nodes: { [id]: node }, rootId: id, currentId: id, order: [id] };
-            };
-            // Determine base images depending on status
-            const base0 = updated[currentReferenceIndex].status === 'existing'
-                ? (updated[currentReferenceIndex].generatedImproved || updated[currentReferenceIndex].originalImage || null)
-                : (updated[currentReferenceIndex].generatedImages?.[0] || null);
-            const base1 = updated[currentReferenceIndex].status === 'existing'
-                ? (updated[currentReferenceIndex].generatedVariation || null)
-                : (updated[currentReferenceIndex].generatedImages?.[1] || null);
-            updated[currentReferenceIndex].histories = [initHistory(base0), initHistory(base1)];
-        }
-
-        const histories = updated[currentReferenceIndex].histories!;
-        const history = histories[imageIndex];
+        const initHistory = (img: string | null | undefined): ImageHistory | null => {
+            if (!img) return null;
+            const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+            const node: ImageVersionNode = { id, imageData: img, parentId: null, childrenIds: [], createdAt: Date.now() };
+            return { nodes: { [id]: node }, rootId: id, currentId: id, order: [id] };
+        };
+        // A slot regenerated after a failure has no history yet
+        const history = ref.histories?.[imageIndex] ?? initHistory(ref.generatedImages?.[imageIndex]);
         if (!history) return;
 
-        // Mark editing
-        history.isEditing = true;
-        history.error = '';
-        setImageReferences(updated);
+        const task = startTask(`slot:${index}:${imageIndex}`);
+        // Writes only this slot's history, creating the reference's histories when it has none.
+        // A cancelled edit was already reset by handleCancelEdit; an ended session has new references.
+        const updateHistory = (change: (history: ImageHistory) => ImageHistory) => {
+            if (!task.isCurrent()) return;
+            setImageReferences(prev => prev.map((r, i) => {
+                if (i !== index) return r;
+                const histories = r.histories ? [...r.histories] : (r.generatedImages || []).map(initHistory);
+                histories[imageIndex] = change(r.histories?.[imageIndex] ?? history);
+                return { ...r, histories };
+            }));
+        };
+        updateHistory(h => ({ ...h, isEditing: true, error: '' }));
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            const provider = getProvider();
             const currentNode = history.nodes[history.currentId];
             const branchKey = `${ref.lineNumber}-${imageIndex}-${currentNode.id}`;
-            let styleImagePart: Part | undefined = styleReferenceImage;
-            if (!styleImagePart && styleImageFile) {
-                try {
-                    styleImagePart = await fileToGenerativePart(styleImageFile);
-                } catch (e) {
-                    console.error("Could not process style image:", e);
-                }
-            }
-            const editedImageRaw = await generateEditedImage(ai, branchKey, currentNode.imageData, instruction, styleImagePart);
-            const normalizeImage = (img: string | null): string | null => {
-                if (!img || typeof img !== 'string') return null;
-                const looksLikeDataUrl = /^data:image\/(png|jpeg|jpg|webp|gif);base64,/i.test(img);
-                if (!looksLikeDataUrl) return null;
-                if (img.length < 200) return null;
-                return img;
-            };
-            const editedImage = normalizeImage(editedImageRaw) || currentNode.imageData;
-
-            // Create new node
+            const styleImages = await styleImagesFor(ref);
+            const editedImageRaw = await provider.editImage(branchKey, currentNode.imageData, instruction, styleImages, { ...frameOptionsFor(ref), ...subjectOptionsFor(ref), styleGuide: styleGuideFor(ref), mask, signal: task.signal });
+            task.signal.throwIfAborted();
+            const edited = normalizeImage(editedImageRaw);
+            const editedImage = edited ? (mask ? await compositeMasked(currentNode.imageData, edited, mask) : edited) : currentNode.imageData;
+            task.signal.throwIfAborted();
+
+            // The new version is a child of the one that was edited, even if another is shown by now
             const newId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
             const newNode: ImageVersionNode = {
                 id: newId,
@@ -951,22 +1224,146 @@ export const App = () => {
                 childrenIds: [],
                 createdAt: Date.now(),
                 instruction,
+                masked: !!mask,
             };
-            // Link to parent
-            currentNode.childrenIds.push(newId);
-            history.nodes[newId] = newNode;
-            history.order.push(newId);
-            history.currentId = newId;
+            updateHistory(h => {
+                const parent = h.nodes[currentNode.id] ?? currentNode;
+                return {
+                    ...h,
+                    nodes: { ...h.nodes, [parent.id]: { ...parent, childrenIds: [...parent.childrenIds, newId] }, [newId]: newNode },
+                    order: [...h.order, newId],
+                    currentId: newId,
+                    isEditing: false,
+                };
+            });
         } catch (e: any) {
-            console.error('Edit failed:', e);
-            history.error = e?.message || 'Edit failed';
+            if (task.isCurrent()) console.error('Edit failed:', e);
+            updateHistory(h => ({ ...h, isEditing: false, error: e?.message || 'Edit failed', errorKind: errorKind(e) }));
+        } finally {
+            task.finish();
+        }
+    };
+
+    // Generates a slot from an edited prompt, or a new slot from the user's own prompt (imageIndex null).
+    // The image is added as a new version of the slot, recorded with the prompt that produced it.
+    // With a refusal, the prompt is the refused one: it is rephrased first and both are kept on the version.
+    const handleGenerateFromPrompt = async (imageIndex: number | null, prompt: string, refusal?: SlotFailure) => {
+        if (currentReferenceIndex === null) return;
+        const index = currentReferenceIndex;
+        const ref = imageReferences[index];
+        // Slot 0 of an existing image stays the improved original, even when it has not been generated
+        const slot = imageIndex ?? Math.max(ref.generatedImages?.length || 0, ref.status === 'existing' ? 1 : 0);
+        const updateSlot = (change: (r: ImageReference, histories: (ImageHistory | null)[]) => Partial<ImageReference>) =>
+            setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, ...change(r, [...(r.histories || [])]) } : r));
+
+        const task = startTask(`slot:${index}:${slot}`);
+        updateSlot((r, histories) => {
+            const proposedPrompts = [...(r.proposedPrompts || [])];
+            const editedPrompts = [...(r.editedPrompts || [])];
+            const generatedImages = [...(r.generatedImages || [])];
+            proposedPrompts[slot] = prompt;
+            if (!refusal) editedPrompts[slot] = true;
+            if (slot >= generatedImages.length) generatedImages[slot] = null;
+            const history = histories[slot];
+            // Edited slots show progress in their edit box; empty or new slots show a spinner
+            if (history) histories[slot] = { ...history, isEditing: true, error: '' };
+            return { proposedPrompts, editedPrompts, generatedImages: Array.from(generatedImages, img => img ?? null), histories, isRetrying: !history || r.isRetrying };
+        });
+
+        try {
+            const provider = getProvider();
+            const styleImages = await styleImagesFor(ref);
+            const rephrasedFrom = refusal ? prompt : undefined;
+            const finalPrompt = refusal ? await rephrasePrompt(provider, ref, prompt, refusal, task.signal) : prompt;
+            task.signal.throwIfAborted();
+            if (refusal) {
+                updateSlot(r => {
+                    const proposedPrompts = [...(r.proposedPrompts || [])];
+                    proposedPrompts[slot] = finalPrompt;
+                    return { proposedPrompts };
+                });
+            }
+            const image = normalizeImage(await provider.generateImage(finalPrompt, styleImages, { ...imageOptionsFor(ref), signal: task.signal, bypassCache: true }));
+            task.signal.throwIfAborted();
+            if (!image) throw new Error('The model did not return a usable image.');
+
+            updateSlot((r, histories) => {
+                const history = histories[slot];
+                const loadErrors = [...(r.loadErrors || [])];
+                loadErrors[slot] = false;
+                const slotFailures = [...(r.slotFailures || [])];
+                slotFailures[slot] = null;
+                if (!history) {
+                    const generatedImages = [...(r.generatedImages || [])];
+                    generatedImages[slot] = image;
+                    histories[slot] = createInitialHistory(image, finalPrompt, rephrasedFrom);
+                    return { generatedImages, histories, loadErrors, slotFailures, isRetrying: false };
+                }
+                const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+                const parent = history.nodes[history.currentId];
+                histories[slot] = {
+                    ...history,
+                    nodes: {
+                        ...history.nodes,
+                        [parent.id]: { ...parent, childrenIds: [...parent.childrenIds, id] },
+                        [id]: { id, imageData: image, parentId: parent.id, childrenIds: [], createdAt: Date.now(), prompt: finalPrompt, rephrasedFrom },
+                    },
+                    currentId: id,
+                    order: [...history.order, id],
+                    isEditing: false,
+                };
+                return { histories, loadErrors, slotFailures };
+            });
+        } catch (e) {
+            if (!task.isCurrent()) return;
+            console.error(`Generation from prompt failed for L${ref.lineNumber}:`, e);
+            updateSlot((r, histories) => {
+                const history = histories[slot];
+                const slotFailures = [...(r.slotFailures || [])];
+                slotFailures[slot] = slotFailure(e);
+                if (!history) return { slotFailures, isRetrying: false };
+                histories[slot] = { ...history, isEditing: false, error: e instanceof Error ? e.message : 'Generation failed', errorKind: errorKind(e) };
+                return { histories, slotFailures };
+            });
         } finally {
-            history.isEditing = false;
-            setImageReferences([...updated]);
+            task.finish();
         }
     };
 
-    const handleNavigateHistory = (imageIndex: 0 | 1, direction: 'prev' | 'next') => {
+    // Rewords the slot's refused prompt and generates from the rewording
+    const handleRephrase = (imageIndex: number) => {
+        if (currentReferenceIndex === null) return;
+        const ref = imageReferences[currentReferenceIndex];
+        const failure = ref.slotFailures?.[imageIndex];
+        const prompt = ref.proposedPrompts?.[imageIndex];
+        if (!failure?.refusal || !prompt) return;
+        return handleGenerateFromPrompt(imageIndex, prompt, failure);
+    };
+
+    const handleCancelEdit = (imageIndex: number) => {
+        if (currentReferenceIndex === null) return;
+        const index = currentReferenceIndex;
+        cancelTask(`slot:${index}:${imageIndex}`);
+        setImageReferences(prev => prev.map((r, i) => {
+            const history = r.histories?.[imageIndex];
+            if (i !== index || !history) return r;
+            const histories = [...r.histories!];
+            histories[imageIndex] = { ...history, isEditing: false, error: '' };
+            return { ...r, histories };
+        }));
+    };
+
+    const handleCancelGeneration = () => {
+        if (currentReferenceIndex === null) return;
+        const index = currentReferenceIndex;
+        // The queue marks the job cancelled and will not start it again until asked to
+        cancelTask(`generate:${index}`);
+        setImageReferences(prev => prev.map((r, i) => i === index
+            ? { ...r, isGeneratingPrompts: false, isGeneratingImages: false, proposedPrompts: undefined, generationError: '' }
+            : r));
+    };
+
+    const handleNavigateHistory = (imageIndex: number, direction: 'prev' | 'next') => {
         if (currentReferenceIndex === null) return;
         const updated = [...imageReferences];
         const histories = updated[currentReferenceIndex].histories;
@@ -984,6 +1381,78 @@ export const App = () => {
         setImageReferences(updated);
     };
 
+    const handleResolvePath = async (zipPath: string | null) => {
+        if (currentReferenceIndex === null || !markdownFile) return;
+        const index = currentReferenceIndex;
+        const session = sessionRef.current;
+        let originalImage: string | undefined;
+        if (zipPath) {
+            try {
+                const zip = await JSZip.loadAsync(markdownFile);
+                const entry = zip.file(zipPath);
+                if (entry) originalImage = toImageDataUrl(await entry.async('base64'), mimeFromExtension(zipPath)) || undefined;
+            } catch (e) {
+                console.error('Could not read image from the archive:', e);
+            }
+            if (!originalImage) return;
+        }
+        const prepared = originalImage ? await prepareOriginal(originalImage) : {};
+        if (session !== sessionRef.current) return;
+        // Start the reference over with the chosen original (or none), dropping proposals made without it
+        generationQueue.forget(index);
+        setImageReferences(prev => prev.map((r, i) => i !== index ? r : {
+            ...r,
+            pathIssue: undefined,
+            status: originalImage && !r.directives?.regenerate ? 'existing' : 'to-generate',
+            originalImage,
+            originalZipPath: zipPath || undefined,
+            originalRaster: prepared.originalRaster,
+            formatIssue: prepared.formatIssue,
+            outcome: prepared.formatIssue ? 'keep-original' : r.outcome,
+            proposedPrompts: undefined,
+            generatedImages: undefined,
+            generationError: '',
+            histories: undefined,
+            selectedIndex: null,
+            loadErrors: undefined,
+            slotFailures: undefined,
+        }));
+    };
+
+    const handleChooseOutcome = (outcome: ImageReference['outcome']) => {
+        if (currentReferenceIndex === null) return;
+        const index = currentReferenceIndex;
+        const ref = imageReferences[index];
+        // A kept first original sets the style like a selected first image would
+        if (outcome === 'keep-original' && maintainStyle && index === 0 && !styleReferenceImage && ref.originalImage) {
+            const { mimeType, base64 } = parseDataUrl(modelImageFor(ref));
+            setStyleReferenceImage({ inlineData: { mimeType, data: base64 } });
+        }
+        setImageReferences(prev => prev.map((r, i) => i === index ? { ...r, outcome } : r));
+        // A final outcome counts as a pick, so move on like selecting an image does
+        if (outcome) setTimeout(() => handleNext(), 300);
+    };
+
+    const handleChangeSettings = (settings: GenerationSettings) => {
+        if (currentReferenceIndex === null) return;
+        const index = currentReferenceIndex;
+        // Start over with the new settings; edits made to the previous set are dropped
+        generationQueue.forget(index);
+        cancelSlotTasks(index);
+        setImageReferences(prev => prev.map((r, i) => i !== index ? r : {
+            ...r,
+            ...settings,
+            proposedPrompts: undefined,
+            generatedImages: undefined,
+            generationError: '',
+            histories: undefined,
+            isRetrying: false,
+            selectedIndex: null,
+            loadErrors: undefined,
+            slotFailures: undefined,
+        }));
+    };
+
     const handlePrevious = () => {
         if (currentReferenceIndex !== null) {
             setCurrentReferenceIndex(Math.max(0, currentReferenceIndex - 1));
@@ -992,13 +1461,24 @@ export const App = () => {
     
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
-            if (view !== 'generation' || currentReferenceIndex === null) return;
+            if (view !== 'generation' || currentReferenceIndex === null || isImageModalOpen) return;
+            // Typing an edit instruction or choosing a count must not pick an image
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+            if (event.metaKey || event.ctrlKey || event.altKey) return;
 
+            const ref = imageReferences[currentReferenceIndex];
+            const pick = (index: number) => {
+                if (ref && !ref.outcome && slotImage(ref, index)) handleImageSelect(index);
+            };
+            if (/^[1-9]$/.test(event.key)) {
+                pick(Number(event.key) - 1);
+            }
             if (event.key === 'ArrowLeft') {
-                handleImageSelect(0);
+                pick(0);
             }
             if (event.key === 'ArrowRight') {
-                handleImageSelect(1);
+                pick(1);
             }
         };
 
@@ -1007,7 +1487,7 @@ export const App = () => {
         return () => {
             document.removeEventListener('keydown', handleKeyDown);
         };
-    }, [view, currentReferenceIndex, handleImageSelect]);
+    }, [view, currentReferenceIndex, imageReferences, handleImageSelect, isImageModalOpen]);
 
     return (
         <>
@@ -1018,6 +1498,7 @@ export const App = () => {
                     <div className="brand-text">
                         <h1>BananaMD</h1>
                         <p className="tagline">Illustrate your Markdown with AI</p>
+                        {getProvider().name === 'mock' && <span className="provider-badge" title="Set GEMINI_API_KEY (or BANANAMD_PROVIDER=gemini) to use Gemini">Offline mock</span>}
                     </div>
                 </div>
                 <nav className="header-nav" aria-hidden="true"></nav>
@@ -1046,6 +1527,14 @@ export const App = () => {
                             error={markdownError}
                         />
                     </div>
+                    {markdownPaths.length > 1 && (
+                        <DocumentPicker
+                            paths={markdownPaths}
+                            selected={selectedMarkdownPaths}
+                            onChange={setSelectedMarkdownPaths}
+                            disabled={isParsing}
+                        />
+                    )}
 
                     <div className="advanced-options">
                         <button 
@@ -1084,6 +1573,99 @@ export const App = () => {
                                     Try to maintain the style of the first image
                                 </label>
                             </div>
+                            <div className="options">
+                                <label className="checkbox-container">
+                                    <input
+                                        type="checkbox"
+                                        checked={keepDirectives}
+                                        onChange={(e) => setKeepDirectives(e.target.checked)}
+                                    />
+                                    <span className="checkbox-custom">
+                                        <CheckIcon />
+                                    </span>
+                                    Keep BananaMD directives in the exported Markdown
+                                </label>
+                            </div>
+                            <div className="options">
+                                <label className="checkbox-container">
+                                    <input
+                                        type="checkbox"
+                                        checked={autoIllustrate}
+                                        onChange={(e) => setAutoIllustrate(e.target.checked)}
+                                    />
+                                    <span className="checkbox-custom">
+                                        <CheckIcon />
+                                    </span>
+                                    Suggest images for documents without any
+                                </label>
+                            </div>
+                            <div className="options">
+                                <label className="checkbox-container">
+                                    <input
+                                        type="checkbox"
+                                        checked={autoRephrase}
+                                        onChange={(e) => setAutoRephrase(e.target.checked)}
+                                    />
+                                    <span className="checkbox-custom">
+                                        <CheckIcon />
+                                    </span>
+                                    Rephrase refused prompts and try once more
+                                </label>
+                            </div>
+                            <div className="options">
+                                <label className="proposal-count-option">
+                                    Proposals per image
+                                    <select value={defaultProposalCount} onChange={(e) => setDefaultProposalCount(Number(e.target.value))}>
+                                        {Array.from({ length: MAX_PROPOSALS }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                                    </select>
+                                </label>
+                            </div>
+                            <div className="options style-guide-options">
+                                <label className="style-guide-field">
+                                    Style guide for every image
+                                    <textarea
+                                        value={styleGuide.guide}
+                                        onChange={(e) => handleChangeStyleGuide({ guide: e.target.value })}
+                                        placeholder="e.g. flat vector, school-safe, brand palette #F5C518/#222"
+                                        rows={2}
+                                    />
+                                </label>
+                                <label className="style-guide-field">
+                                    Never include
+                                    <textarea
+                                        value={styleGuide.avoid}
+                                        onChange={(e) => handleChangeStyleGuide({ avoid: e.target.value })}
+                                        placeholder="e.g. text in the image, logos, photorealism"
+                                        rows={2}
+                                    />
+                                </label>
+                            </div>
+                            <div className="options">
+                                <StyleLibrary
+                                    presets={stylePresets}
+                                    onSave={handleSaveStylePreset}
+                                    onRemove={handleRemoveStylePreset}
+                                    defaultPresetId={defaultStylePresetId}
+                                    onChangeDefault={setDefaultStylePresetId}
+                                    documentPaths={selectedMarkdownPaths}
+                                    documentPresets={documentStylePresets}
+                                    onChangeDocument={handleChangeDocumentStylePreset}
+                                />
+                            </div>
+                            <div className="options">
+                                <SubjectLibrary subjects={subjects} onSave={handleSaveSubject} onRemove={handleRemoveSubject} />
+                            </div>
+                            {defaultTemplates && (
+                                <div className="options">
+                                    <TemplateEditor defaults={defaultTemplates} library={templateLibrary} onChange={handleChangeTemplateLibrary} />
+                                </div>
+                            )}
+                            <div className="options">
+                                <CacheInspector cache={getResponseCache()} bypass={bypassCache} onChangeBypass={setBypassCache} />
+                            </div>
+                            {configSource && (
+                                <p className="config-source">Defaults loaded from the <code>bananamd</code> front matter of {configSource}.</p>
+                            )}
                         </div>
                     </div>
                     
@@ -1093,13 +1675,13 @@ export const App = () => {
                                 <div className="spinner-container">
                                     <Spinner />
                                 </div>
-                                <p className="generation-status-indicator">Parsing Markdown and finding image references...</p>
+                                <p className="generation-status-indicator">{isSuggesting ? 'Looking for places that need images...' : 'Parsing Markdown and finding image references...'}</p>
                             </div>
                         ) : (
                             <button
                                 className="propose-button"
                                 onClick={parseAndFindReferences}
-                                disabled={!markdownFile || isParsing}
+                                disabled={!markdownFile || isParsing || (markdownPaths.length > 0 && !selectedMarkdownPaths.length)}
                             >
                                 Generate
                             </button>
@@ -1108,6 +1690,15 @@ export const App = () => {
                 </>
             )}
 
+            {view === 'review' && (
+                <SuggestionReview
+                    suggestions={suggestions}
+                    showDocument={documents.length > 1}
+                    onAccept={handleAcceptSuggestions}
+                    onCancel={handleCancelSuggestions}
+                />
+            )}
+
             {view === 'generation' && !allImagesSelected && currentReferenceIndex !== null && imageReferences.length > 0 && (
                 <section className="results-section">
                     <div className="results-navigation">
@@ -1116,27 +1707,47 @@ export const App = () => {
                         </button>
                         <span>
                             Image {currentReferenceIndex + 1} of {imageReferences.length}
+                            {documents.length > 1 && <span className="results-document" title={imageReferences[currentReferenceIndex].documentPath}> · {imageReferences[currentReferenceIndex].documentPath}</span>}
                         </span>
                         <button className="nav-button" onClick={handleNext} disabled={currentReferenceIndex === imageReferences.length - 1}>
                             Next
                         </button>
                     </div>
+                    <QueueControls
+                        references={imageReferences}
+                        paused={queuePaused}
+                        concurrency={queueConcurrency}
+                        waitingForStyle={waitingForStyle}
+                        onTogglePause={() => setQueuePaused(!queuePaused)}
+                        onChangeConcurrency={setQueueConcurrency}
+                    />
                     <div className="image-reference-list">
                         <ImageReferenceItem 
-                            key={imageReferences[currentReferenceIndex].lineNumber + imageReferences[currentReferenceIndex].path}
+                            key={imageReferences[currentReferenceIndex].documentPath + imageReferences[currentReferenceIndex].lineNumber + imageReferences[currentReferenceIndex].path}
                             reference={imageReferences[currentReferenceIndex]}
                             onOpenContext={openModal}
                             onGenerateVariation={handleGenerateVariation}
                             onSelect={handleImageSelect}
-                            onOpenPrompt={openPromptModal}
+                            onGenerateFromPrompt={handleGenerateFromPrompt}
                             onRegenerate={handleRegenerateImage}
+                            onRephrase={handleRephrase}
                             onEditInstruction={handleEditInstruction}
                             onNavigateHistory={handleNavigateHistory}
                             onZoomImage={openImageModal}
+                            onResolvePath={handleResolvePath}
+                            onChooseOutcome={handleChooseOutcome}
+                            proposalCount={proposalCountFor(imageReferences[currentReferenceIndex])}
+                            stylePresets={stylePresets}
+                            inheritedStyleGuide={documentStyleGuide(imageReferences[currentReferenceIndex])}
+                            subjectNames={mentionedSubjects(imageReferences[currentReferenceIndex]).map(subject => subject.name)}
+                            onChangeSettings={handleChangeSettings}
+                            onCancelGeneration={handleCancelGeneration}
+                            onCancelEdit={handleCancelEdit}
+                            onRestart={() => handleChangeSettings({})}
                             onImageError={(imageIndex) => {
                                 const updated = [...imageReferences];
                                 const cur = updated[currentReferenceIndex!];
-                                const arr: [boolean, boolean] = cur.loadErrors ? [...cur.loadErrors] as [boolean, boolean] : [false, false];
+                                const arr = cur.loadErrors ? [...cur.loadErrors] : [];
                                 arr[imageIndex] = true;
                                 cur.loadErrors = arr;
                                 setImageReferences(updated);
@@ -1189,8 +1800,16 @@ export const App = () => {
             )}
             
             <Modal isOpen={isModalOpen} onClose={closeModal} content={modalContent} />
-            <Modal isOpen={isImageModalOpen} onClose={closeImageModal} imageSrc={imageModalSrc} title="Image Preview" />
-            <Modal isOpen={isPromptModalOpen} onClose={closePromptModal} content={promptModalContent} title="Generation Prompt" />
+            <Modal
+                isOpen={isImageModalOpen}
+                onClose={closeImageModal}
+                imageSrc={imageModalSrc}
+                title={imageModalSlot !== null ? 'Image Preview: paint a region to edit it' : 'Image Preview'}
+                onMaskEdit={imageModalSlot !== null ? (instruction, mask) => {
+                    handleEditInstruction(imageModalSlot, instruction, mask);
+                    closeImageModal();
+                } : undefined}
+            />
         </div>
         </>
     );
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CheckIcon } from './icons';
+import type { CacheEntry, ResponseCache } from '../services/cache';
+
+interface CacheInspectorProps {
+    cache: ResponseCache;
+    bypass: boolean;
+    onChangeBypass: (bypass: boolean) => void;
+}
+
+const formatBytes = (bytes: number): string =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const CacheInspector = ({ cache, bypass, onChangeBypass }: CacheInspectorProps) => {
+    // Loaded when the list is opened, so the cache is not read on every render
+    const [entries, setEntries] = React.useState<CacheEntry[] | null>(null);
+    const [open, setOpen] = React.useState(false);
+
+    const refresh = () => cache.list().then(setEntries);
+    const toggle = () => {
+        if (!open) refresh();
+        setOpen(!open);
+    };
+    const remove = async (key: string) => {
+        await cache.remove(key);
+        refresh();
+    };
+    const clear = async () => {
+        await cache.clear();
+        refresh();
+    };
+    const total = entries?.reduce((sum, entry) => sum + entry.size, 0) || 0;
+
+    return (
+        <div className="cache-inspector">
+            <label className="checkbox-container">
+                <input type="checkbox" checked={bypass} onChange={(e) => onChangeBypass(e.target.checked)} />
+                <span className="checkbox-custom">
+                    <CheckIcon />
+                </span>
+                Bypass the response cache and ask Gemini again
+            </label>
+            <button type="button" className="cache-toggle" onClick={toggle} aria-expanded={open}>
+                {open ? 'Hide cached responses' : 'Show cached responses'}
+            </button>
+            {open && entries && (
+                <div className="cache-entries">
+                    <p className="cache-summary">
+                        {entries.length} cached {entries.length === 1 ? 'response' : 'responses'}{entries.length > 0 && `, ${formatBytes(total)}`}
+                        {entries.length > 0 && <button type="button" className="cache-clear" onClick={clear}>Clear cache</button>}
+                    </p>
+                    <ul className="cache-list">
+                        {entries.map(entry => (
+                            <li key={entry.key} className="cache-entry">
+                                {entry.kind === 'image'
+                                    ? <img src={entry.value} alt="" className="cache-thumbnail" />
+                                    : <span className="cache-thumbnail text">Aa</span>}
+                                <span className="cache-entry-text">
+                                    <span className="cache-entry-label" title={entry.label}>{entry.label || '(no prompt)'}</span>
+                                    <span className="cache-entry-meta">
+                                        {entry.method} · {entry.model} · {formatBytes(entry.size)} · {new Date(entry.createdAt).toLocaleString()}
+                                    </span>
+                                </span>
+                                <button type="button" className="cache-remove" onClick={() => remove(entry.key)} aria-label="Remove from cache">×</button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CheckIcon } from './icons';
+
+interface DocumentPickerProps {
+    paths: string[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+    disabled?: boolean;
+}
+
+export const DocumentPicker = ({ paths, selected, onChange, disabled }: DocumentPickerProps) => {
+    const toggle = (path: string) => {
+        if (disabled) return;
+        onChange(selected.includes(path) ? selected.filter(p => p !== path) : paths.filter(p => p === path || selected.includes(p)));
+    };
+    const allSelected = selected.length === paths.length;
+
+    return (
+        <div className="document-picker">
+            <div className="document-picker-header">
+                <span>{selected.length} of {paths.length} documents selected</span>
+                <button
+                    type="button"
+                    className="document-picker-toggle"
+                    onClick={() => onChange(allSelected ? [] : [...paths])}
+                    disabled={disabled}
+                >
+                    {allSelected ? 'Select none' : 'Select all'}
+                </button>
+            </div>
+            <ul className="document-picker-list">
+                {paths.map(path => (
+                    <li key={path}>
+                        <label className="checkbox-container">
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(path)}
+                                onChange={() => toggle(path)}
+                                disabled={disabled}
+                            />
+                            <span className="checkbox-custom">
+                                <CheckIcon />
+                            </span>
+                            <span className="document-picker-path" title={path}>{path}</span>
+                        </label>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
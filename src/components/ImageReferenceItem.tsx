@@ -1,34 +1,92 @@
 import React from 'react';
 import { InlineSpinner } from './spinners';
+import { PromptEditor } from './PromptEditor';
+import { StyleGuideEditor } from './StyleGuideEditor';
 import { EyeIcon, ZoomIcon } from './icons';
+import type { ImageSyntax, SourceRange } from '../services/markdown';
+import { ASPECT_RATIOS, formatOutputSize, parseOutputSize, type AspectRatio, type ImageFit, type OutputSize } from '../services/imageSize';
+import { MAX_PROPOSALS, type ImageDirectives } from '../services/directives';
+import type { ArchiveResolution } from '../services/paths';
+import { dataUrlMime, isVectorImageType } from '../services/imageFormats';
+import type { JobState } from '../services/queue';
+import { ERROR_GUIDANCE, formatSafetyCategory, type GenerationErrorKind, type Refusal } from '../services/errors';
+import type { StylePreset } from '../services/styles';
+import type { StyleGuide } from '../services/styleGuide';
 
 export interface ImageReference {
+    // Markdown document (path inside the archive) this reference belongs to
+    documentPath: string;
     lineNumber: number;
     alt: string;
     path: string;
+    title?: string;
     context: string;
     // Export helpers
     startIndex?: number;
     matchLength?: number;
-    syntax?: 'markdown' | 'html';
+    syntax?: ImageSyntax;
+    referenceLabel?: string;
+    definition?: SourceRange & { identifier: string };
+    wikiSize?: string;
+    // Proposed by auto-illustrate: a new image inserted at startIndex on export, with the reason it was suggested
+    insertion?: boolean;
+    rationale?: string;
+    // Slide decks: 1-based slide the image sits on
+    slideNumber?: number;
+    // Shape and size generated images are brought to, from directives, front matter, the deck or the UI
+    aspectRatio?: AspectRatio;
+    outputSize?: OutputSize;
+    fit?: ImageFit;
+    // Per-image directives from a `<!-- bananamd: ... -->` comment or `data-bananamd-*` attributes
+    directives?: ImageDirectives;
+    directiveRange?: SourceRange;
+    // Final outcome instead of a generated pick: keep the original image and path, or leave the Markdown untouched.
+    // Seeded from directives and changeable in the UI; undefined means a generated image must be selected.
+    outcome?: 'keep-original' | 'skip';
     status: 'existing' | 'to-generate';
+    // Position in the background generation queue
+    queueState?: JobState;
+    // Proposals chosen for this reference in the UI; otherwise directives, front matter or the global setting decide
+    proposalCount?: number;
+    // Style preset chosen for this reference, '' for none; undefined follows the document's preset
+    stylePresetId?: string;
+    // Style guide and negative constraints for this reference only; undefined follows the document
+    styleGuide?: string;
+    avoid?: string;
     isGeneratingPrompts?: boolean;
-    proposedPrompts?: [string, string];
+    // One entry per proposal slot. For existing images, slot 0 is the improved original and the others are
+    // new images from its description.
+    proposedPrompts?: string[];
+    // Slots whose prompt was edited or written by the user; slots past the proposal count are the user's own
+    editedPrompts?: boolean[];
     isGeneratingImages?: boolean;
-    generatedImages?: [string | null, string | null];
+    generatedImages?: (string | null)[];
     generationError?: string;
+    // Kind of the last failure, which picks the advice shown with it
+    generationErrorKind?: GenerationErrorKind;
+    // Why each slot's last generation gave no image, cleared when one arrives
+    slotFailures?: (SlotFailure | null)[];
+    // Original image bytes as found, labelled with the type detected from them
     originalImage?: string;
-    // Existing image flow
-    isGeneratingImproved?: boolean;
-    generatedImproved?: string | null;
-    improvedError?: string;
-    isGeneratingVariation?: boolean;
-    generatedVariation?: string | null;
-    variationError?: string;
+    // PNG rendering of the original when the model does not accept its format (SVG, AVIF, BMP, GIF…)
+    originalRaster?: string;
+    // Why the original could not be prepared for the model (e.g. a format this browser cannot decode)
+    formatIssue?: string;
+    // Resolved location of the original image inside the uploaded zip
+    originalZipPath?: string;
+    // Local link that matched no file, or several, in the zip; ambiguous links wait for the user to choose
+    pathIssue?: Exclude<ArchiveResolution, { kind: 'found' }>;
     selectedIndex?: number | null;
     isRetrying?: boolean;
-    histories?: [ImageHistory | null, ImageHistory | null];
-    loadErrors?: [boolean, boolean];
+    histories?: (ImageHistory | null)[];
+    loadErrors?: boolean[];
+}
+
+/** A slot's failed generation; refusals keep the model's reasons for display and rephrasing. */
+export interface SlotFailure {
+    message: string;
+    kind: GenerationErrorKind;
+    refusal?: Refusal;
 }
 
 export interface ImageVersionNode {
@@ -38,6 +96,12 @@ export interface ImageVersionNode {
     childrenIds: string[];
     createdAt: number;
     instruction?: string;
+    // Prompt the version was generated from; edits record their instruction instead
+    prompt?: string;
+    // The edit was limited to a drawn region
+    masked?: boolean;
+    // Refused prompt that `prompt` was rephrased from
+    rephrasedFrom?: string;
 }
 
 export interface ImageHistory {
@@ -47,29 +111,130 @@ export interface ImageHistory {
     order: string[];
     isEditing?: boolean;
     error?: string;
+    errorKind?: GenerationErrorKind;
 }
 
+/** Image currently shown in a proposal slot: the selected version when it has been edited, else the generated one. */
+export const slotImage = (ref: ImageReference, index: number): string | null => {
+    const history = ref.histories?.[index];
+    return history ? history.nodes[history.currentId].imageData : ref.generatedImages?.[index] || null;
+};
+
 interface ImageReferenceItemProps {
     reference: ImageReference;
     onOpenContext: (context: string) => void;
     onGenerateVariation: (ref: ImageReference) => void;
     onSelect: (index: number) => void;
-    onOpenPrompt: (prompt: string) => void;
     onRegenerate: (imageIndex: number) => void;
-    onEditInstruction: (imageIndex: 0 | 1, instruction: string) => void;
-    onNavigateHistory: (imageIndex: 0 | 1, direction: 'prev' | 'next') => void;
-    onImageError: (imageIndex: 0 | 1) => void;
-    onZoomImage: (src: string) => void;
+    // Reword a slot's refused prompt and generate from the rewording
+    onRephrase: (imageIndex: number) => void;
+    // Generate a slot from an edited prompt, or a new slot from the user's own prompt when imageIndex is null
+    onGenerateFromPrompt: (imageIndex: number | null, prompt: string) => void;
+    onEditInstruction: (imageIndex: number, instruction: string) => void;
+    onNavigateHistory: (imageIndex: number, direction: 'prev' | 'next') => void;
+    onImageError: (imageIndex: number) => void;
+    // With a slot index, the zoomed image offers region edits of that slot
+    onZoomImage: (src: string, imageIndex?: number) => void;
+    // Use a file from the archive as the original image, or null to generate a new one
+    onResolvePath: (zipPath: string | null) => void;
+    // Pass undefined to go back to choosing a generated image
+    onChooseOutcome: (outcome: ImageReference['outcome']) => void;
+    // Number of proposal slots for this reference
+    proposalCount: number;
+    // Presets offered in the style select
+    stylePresets: StylePreset[];
+    // Style guide and constraints the reference follows when it has no override of its own
+    inheritedStyleGuide: StyleGuide;
+    // Recurring subjects mentioned in the context, whose references are sent with every generation and edit
+    subjectNames: string[];
+    // New proposal count, aspect ratio, output size or style preset; the proposals are generated again with it
+    onChangeSettings: (settings: GenerationSettings) => void;
+    // Stop the reference's in-flight generation, or one slot's edit; nothing they return is applied
+    onCancelGeneration: () => void;
+    onCancelEdit: (imageIndex: number) => void;
+    // Queue a cancelled or failed reference again
+    onRestart: () => void;
+}
+
+export type GenerationSettings = Partial<Pick<ImageReference, 'proposalCount' | 'aspectRatio' | 'outputSize' | 'stylePresetId' | 'styleGuide' | 'avoid'>>;
+
+const QUEUE_STATE_LABELS: Record<JobState, string> = {
+    queued: 'Queued',
+    running: 'Generating',
+    done: 'Ready',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+// Widths offered per reference; sizes set elsewhere (e.g. 1280x720 in a directive) are listed too
+const OUTPUT_WIDTHS = [512, 768, 1024, 1280, 1600, 1920];
+
+const sizeValue = (size?: OutputSize): string => size ? (size.height ? `${size.width}x${size.height}` : String(size.width)) : '';
+
+interface EditInputProps {
+    imageIndex: number;
+    history?: ImageHistory | null;
+    onEditInstruction: (imageIndex: number, instruction: string) => void;
+    onCancelEdit: (imageIndex: number) => void;
 }
 
-export const ImageReferenceItem = ({ reference, onOpenContext, onGenerateVariation, onSelect, onOpenPrompt, onRegenerate, onEditInstruction, onNavigateHistory, onImageError, onZoomImage }: ImageReferenceItemProps) => {
+// At module level so the item's frequent re-renders keep the instruction being typed
+const EditInput = ({ imageIndex, history, onEditInstruction, onCancelEdit }: EditInputProps) => {
+    const [value, setValue] = React.useState('');
+    const isEditing = history?.isEditing;
+    const submit = () => {
+        if (!value.trim() || isEditing) return;
+        onEditInstruction(imageIndex, value.trim());
+        setValue('');
+    };
+    const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
+            submit();
+        }
+    };
+    return (
+        <div className="edit-panel modern">
+            <textarea
+                className="edit-textarea"
+                placeholder={isEditing ? 'Editing…' : "Tell us what you'd like to change..."}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={onKeyDown}
+                disabled={!!isEditing}
+                rows={3}
+            />
+            {isEditing
+                ? <button className="cancel-button" onClick={(e) => { e.stopPropagation(); onCancelEdit(imageIndex); }}>Cancel</button>
+                : <button className="send-button" aria-label="Apply edit" onClick={(e) => { e.stopPropagation(); submit(); }}>→</button>}
+            {history?.error && <span className="edit-error">{history.error}</span>}
+            {history?.error && history.errorKind && ERROR_GUIDANCE[history.errorKind] && <span className="error-guidance">{ERROR_GUIDANCE[history.errorKind]}</span>}
+        </div>
+    );
+};
+
+export const ImageReferenceItem = ({ reference, onOpenContext, onGenerateVariation, onSelect, onRegenerate, onRephrase, onGenerateFromPrompt, onEditInstruction, onNavigateHistory, onImageError, onZoomImage, onResolvePath, onChooseOutcome, proposalCount, stylePresets, inheritedStyleGuide, subjectNames, onChangeSettings, onCancelGeneration, onCancelEdit, onRestart }: ImageReferenceItemProps) => {
     const { 
         path, alt, lineNumber, status, context,
         isGeneratingPrompts, proposedPrompts,
         isGeneratingImages, generatedImages, generationError,
-        originalImage, isGeneratingVariation, generatedVariation, variationError,
-        histories
+        originalImage, histories, directives, pathIssue
     } = reference;
+    const isVectorOriginal = !!originalImage && isVectorImageType(dataUrlMime(originalImage));
+    // Slot whose prompt editor is open; 'new' for the user's own prompt
+    const [promptSlot, setPromptSlot] = React.useState<number | 'new' | null>(null);
+    const [showStyleGuide, setShowStyleGuide] = React.useState(false);
+
+    const directiveSummary = directives ? [
+        directives.aspectRatio && `aspect ${directives.aspectRatio}`,
+        directives.size && `size ${formatOutputSize(directives.size)}`,
+        directives.fit && `fit ${directives.fit}`,
+        directives.style && `style ${directives.style}`,
+        directives.prompt && `prompt "${directives.prompt}"`,
+        directives.skip && 'skip',
+        directives.keepOriginal && 'keep original',
+        directives.regenerate && 'regenerate',
+        directives.proposals && `${directives.proposals} proposals`,
+    ].filter(Boolean).join(', ') : '';
 
     const renderVersionBadge = (history?: ImageHistory | null) => {
         if (!history) return null;
@@ -83,7 +248,7 @@ export const ImageReferenceItem = ({ reference, onOpenContext, onGenerateVariati
         );
     };
 
-    const renderNavArrows = (history?: ImageHistory | null, imageIndex?: 0 | 1) => {
+    const renderNavArrows = (history?: ImageHistory | null, imageIndex?: number) => {
         if (!history || imageIndex === undefined) return null;
         const idx = history.order.indexOf(history.currentId);
         const hasPrev = idx > 0;
@@ -97,33 +262,103 @@ export const ImageReferenceItem = ({ reference, onOpenContext, onGenerateVariati
         );
     };
 
-    const EditInput = ({ imageIndex }: { imageIndex: 0 | 1 }) => {
-        const [value, setValue] = React.useState('');
-        const history = histories?.[imageIndex];
-        const isEditing = history?.isEditing;
-        const submit = () => {
-            if (!value.trim() || isEditing) return;
-            onEditInstruction(imageIndex, value.trim());
-            setValue('');
-        };
-        const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-            if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
-                submit();
-            }
-        };
+    const settingsLocked = !!reference.outcome || !!isGeneratingPrompts || !!isGeneratingImages;
+
+    // Up to three columns; the grid wraps for more proposals
+    const gridStyle = { '--proposal-columns': Math.min(3, Math.max(proposalCount, generatedImages?.length || 0)) } as React.CSSProperties;
+    const isVariationSlot = (index: number) => status === 'existing' && index === 0;
+    const slotLabel = (index: number) => {
+        const label = index >= proposalCount ? 'Your prompt'
+            : status === 'existing' ? (index === 0 ? 'Improved original' : 'New from description')
+            : `Proposal ${index + 1}`;
+        const history = histories?.[index];
+        if (history?.nodes[history.currentId].rephrasedFrom) return `${label} (rephrased after refusal)`;
+        return reference.editedPrompts?.[index] && index < proposalCount ? `${label} (edited prompt)` : label;
+    };
+
+    // Why the slot failed; with an image still showing, the edit box already has the message
+    const renderFailure = (index: number, withMessage: boolean) => {
+        const failure = reference.slotFailures?.[index];
+        if (!failure || reference.isRetrying || histories?.[index]?.isEditing) return null;
+        const refusal = failure.refusal;
+        if (!withMessage && !refusal) return null;
         return (
-            <div className="edit-panel modern">
-                <textarea
-                    className="edit-textarea"
-                    placeholder={isEditing ? 'Editing…' : "Tell us what you'd like to change..."}
-                    value={value}
-                    onChange={(e) => setValue(e.target.value)}
-                    onKeyDown={onKeyDown}
-                    disabled={!!isEditing}
-                    rows={3}
-                />
-                <button className="send-button" aria-label="Apply edit" onClick={(e) => { e.stopPropagation(); submit(); }} disabled={!!isEditing}>→</button>
-                {history?.error && <span className="edit-error">{history.error}</span>}
+            <div className="slot-failure" role="alert">
+                {withMessage && <p className="edit-error">{failure.message}</p>}
+                {refusal && refusal.categories.length > 0 && (
+                    <p className="slot-failure-categories">Flagged: {refusal.categories.map(formatSafetyCategory).join(', ')}</p>
+                )}
+                {refusal?.modelText && <blockquote className="slot-failure-text">{refusal.modelText}</blockquote>}
+                {withMessage && ERROR_GUIDANCE[failure.kind] && <p className="error-guidance">{ERROR_GUIDANCE[failure.kind]}</p>}
+                {refusal && !isVariationSlot(index) && proposedPrompts?.[index] && (
+                    <button className="retry-button" onClick={(e) => { e.stopPropagation(); onRephrase(index); }}>Rephrase and retry</button>
+                )}
+            </div>
+        );
+    };
+
+    const renderPromptEditor = (index: number) => promptSlot === index && (
+        <PromptEditor
+            prompt={proposedPrompts?.[index] || ''}
+            history={histories?.[index]}
+            editable={!isVariationSlot(index)}
+            busy={!!histories?.[index]?.isEditing || !!reference.isRetrying}
+            submitLabel="Generate from this prompt"
+            onSubmit={(prompt) => onGenerateFromPrompt(index, prompt)}
+            onClose={() => setPromptSlot(null)}
+        />
+    );
+    const togglePrompt = (index: number) => setPromptSlot(promptSlot === index ? null : index);
+
+    const renderSkeletons = () => (
+        <div className="generated-images-container" style={gridStyle}>
+            {Array.from({ length: proposalCount }, (_, i) => (
+                <div key={i} className="generated-image-wrapper skeleton" aria-busy="true" aria-label={`Loading image ${i + 1}`}></div>
+            ))}
+        </div>
+    );
+
+    const renderSlot = (index: number) => {
+        const src = slotImage(reference, index);
+        const label = <p className="column-label"><kbd>{index + 1}</kbd> {slotLabel(index)}</p>;
+        if (!src || reference.loadErrors?.[index]) {
+            return (
+                <div key={index} className="image-column">
+                    {label}
+                    <div className="generated-image-wrapper placeholder">
+                        {reference.isRetrying ? (
+                            <InlineSpinner />
+                        ) : (
+                            <>
+                                Image {index + 1} failed
+                                {/* Without a prompt there is nothing to try again; "Edit prompt" can write one */}
+                                {(isVariationSlot(index) || proposedPrompts?.[index]) && (
+                                    <button className="retry-button" onClick={(e) => { e.stopPropagation(); onRegenerate(index); }}>Try again</button>
+                                )}
+                                {!isVariationSlot(index) && (
+                                    <button className="retry-button" onClick={(e) => { e.stopPropagation(); togglePrompt(index); }}>Edit prompt</button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                    {renderFailure(index, true)}
+                    {renderPromptEditor(index)}
+                </div>
+            );
+        }
+        return (
+            <div key={index} className="image-column">
+                {label}
+                <div className={`generated-image-wrapper ${reference.selectedIndex === index ? 'selected' : ''}`} onClick={() => onSelect(index)}>
+                    {renderVersionBadge(histories?.[index])}
+                    {renderNavArrows(histories?.[index], index)}
+                    <img src={src} alt={`Generated image option ${index + 1}`} className="generated-image" onError={(e) => { e.stopPropagation(); onImageError(index); }} />
+                    <button className="zoom-button" aria-label="Zoom image" title="Zoom, or mark a region to edit" onClick={(e) => { e.stopPropagation(); onZoomImage(src, index); }}><ZoomIcon /></button>
+                    <button className="info-button" title="View or edit the generation prompt" aria-expanded={promptSlot === index} onClick={(e) => { e.stopPropagation(); togglePrompt(index); }}>i</button>
+                </div>
+                {renderFailure(index, false)}
+                {renderPromptEditor(index)}
+                <EditInput imageIndex={index} history={histories?.[index]} onEditInstruction={onEditInstruction} onCancelEdit={onCancelEdit} />
             </div>
         );
     };
@@ -131,142 +366,220 @@ export const ImageReferenceItem = ({ reference, onOpenContext, onGenerateVariati
     return (
         <div className={`image-reference-item status-${status}`} aria-live="polite">
             <div className="item-header">
-                <span className="item-path" title={path}>{path}</span>
+                {reference.insertion
+                    ? <span className="item-path">New image after line {lineNumber}</span>
+                    : <span className="item-path" title={path}>{path}</span>}
+                {reference.slideNumber !== undefined && <span className="item-line">Slide {reference.slideNumber}</span>}
+                {reference.queueState && reference.queueState !== 'done' && (
+                    <span className={`item-line queue-state ${reference.queueState}`}>{QUEUE_STATE_LABELS[reference.queueState]}</span>
+                )}
                 <button className="context-button" onClick={() => onOpenContext(context)}>
                     <EyeIcon />
                     <span>See context</span>
                 </button>
             </div>
             {alt && <p className="item-alt">Alt: "{alt}"</p>}
+            {reference.rationale && <p className="item-directives">Why here: {reference.rationale}</p>}
+            {directiveSummary && <p className="item-directives">Directives: {directiveSummary}</p>}
+            {subjectNames.length > 0 && <p className="item-directives">Subjects: {subjectNames.join(', ')}</p>}
+            {pathIssue && (
+                <div className={`path-issue ${pathIssue.kind}`} role="status">
+                    <p>
+                        {pathIssue.kind === 'ambiguous'
+                            ? <>Several files in the archive match <code>{pathIssue.resolvedPath}</code> when case is ignored. Choose the original image:</>
+                            : <>No file at <code>{pathIssue.resolvedPath}</code> in the archive, so a new image is generated.{pathIssue.candidates.length > 0 && ' Files with the same name:'}</>}
+                    </p>
+                    {pathIssue.candidates.length > 0 && (
+                        <div className="path-issue-actions">
+                            {pathIssue.candidates.map(candidate => (
+                                <button key={candidate} className="path-candidate" onClick={() => onResolvePath(candidate)}>Use {candidate}</button>
+                            ))}
+                            {pathIssue.kind === 'ambiguous' && (
+                                <button className="path-candidate" onClick={() => onResolvePath(null)}>Generate a new image</button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
             
+            <div className="item-controls">
+                <div className="generation-settings">
+                    <label className="proposal-count">
+                        Proposals
+                        <select
+                            value={proposalCount}
+                            onChange={(e) => onChangeSettings({ proposalCount: Number(e.target.value) })}
+                            disabled={settingsLocked}
+                            title="Number of images to propose; changing it generates a new set"
+                        >
+                            {Array.from({ length: MAX_PROPOSALS }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                        </select>
+                    </label>
+                    <label className="proposal-count">
+                        Aspect
+                        <select
+                            value={reference.aspectRatio || ''}
+                            onChange={(e) => onChangeSettings({ aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })}
+                            disabled={settingsLocked}
+                            title="Shape of the generated images; changing it generates a new set"
+                        >
+                            <option value="">Any</option>
+                            {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                        </select>
+                    </label>
+                    <label className="proposal-count">
+                        Size
+                        <select
+                            value={sizeValue(reference.outputSize)}
+                            onChange={(e) => onChangeSettings({ outputSize: parseOutputSize(e.target.value) })}
+                            disabled={settingsLocked}
+                            title="Width of the exported images in pixels; changing it generates a new set"
+                        >
+                            <option value="">As generated</option>
+                            {reference.outputSize && !OUTPUT_WIDTHS.map(String).includes(sizeValue(reference.outputSize)) && (
+                                <option value={sizeValue(reference.outputSize)}>{formatOutputSize(reference.outputSize)}</option>
+                            )}
+                            {OUTPUT_WIDTHS.map(width => <option key={width} value={width}>{width}px wide</option>)}
+                        </select>
+                    </label>
+                    {stylePresets.length > 0 && (
+                        <label className="proposal-count">
+                            Style
+                            <select
+                                value={reference.stylePresetId ?? 'document'}
+                                onChange={(e) => onChangeSettings({ stylePresetId: e.target.value === 'document' ? undefined : e.target.value })}
+                                disabled={settingsLocked}
+                                title="Style preset whose images and guide are sent with every generation; changing it generates a new set"
+                            >
+                                <option value="document">Document default</option>
+                                <option value="">None</option>
+                                {stylePresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    <button
+                        type="button"
+                        className={`outcome-choice ${showStyleGuide ? 'active' : ''}`}
+                        onClick={() => setShowStyleGuide(!showStyleGuide)}
+                        aria-expanded={showStyleGuide}
+                        title="Style guide and constraints for this image only"
+                    >
+                        Style guide{reference.styleGuide !== undefined || reference.avoid !== undefined ? ' (custom)' : ''}
+                    </button>
+                </div>
+                <div className="outcome-choices" role="group" aria-label="Outcome for this reference">
+                    <button
+                        className={`outcome-choice ${reference.outcome === 'keep-original' ? 'active' : ''}`}
+                        onClick={() => onChooseOutcome(reference.outcome === 'keep-original' ? undefined : 'keep-original')}
+                        disabled={!originalImage}
+                        title={originalImage ? 'Export the original image and path unchanged' : 'There is no original image to keep'}
+                        aria-pressed={reference.outcome === 'keep-original'}
+                    >
+                        Keep original
+                    </button>
+                    <button
+                        className={`outcome-choice ${reference.outcome === 'skip' ? 'active' : ''}`}
+                        onClick={() => onChooseOutcome(reference.outcome === 'skip' ? undefined : 'skip')}
+                        title="Leave this reference untouched in the Markdown"
+                        aria-pressed={reference.outcome === 'skip'}
+                    >
+                        Skip
+                    </button>
+                </div>
+            </div>
+
+            {showStyleGuide && (
+                <StyleGuideEditor
+                    value={{ guide: reference.styleGuide, avoid: reference.avoid }}
+                    inherited={inheritedStyleGuide}
+                    disabled={settingsLocked}
+                    onApply={({ guide, avoid }) => {
+                        onChangeSettings({ styleGuide: guide, avoid });
+                        setShowStyleGuide(false);
+                    }}
+                    onClose={() => setShowStyleGuide(false)}
+                />
+            )}
+
             <div className="item-body">
-                {status === 'existing' && (
-                    <div className="generation-result">
-                        {/* context button moved to header */}
-                        {(reference.isGeneratingImproved || isGeneratingVariation) ? (
-                            <div className="generated-images-container">
-                                <div className="generated-image-wrapper skeleton" aria-busy="true" aria-label="Loading image 1"></div>
-                                <div className="generated-image-wrapper skeleton" aria-busy="true" aria-label="Loading image 2"></div>
-                            </div>
-                        ) : (
-                            <div className="generated-images-container">
-                                <div className="image-column">
-                                    <div className={`generated-image-wrapper ${reference.selectedIndex === 0 ? 'selected' : ''}`} onClick={() => onSelect(0)}>
-                                        {renderVersionBadge(histories?.[0])}
-                                        {renderNavArrows(histories?.[0], 0)}
-                                        { (histories?.[0] || reference.generatedImproved) ? (
-                                            <img src={histories?.[0] ? histories[0]!.nodes[histories[0]!.currentId].imageData : reference.generatedImproved!} alt="Generated image option 1" className="generated-image" onError={(e) => { e.stopPropagation(); onImageError(0); }} />
-                                        ) : (
-                                            <div className="generated-image-wrapper placeholder">Image 1 failed</div>
-                                        )}
-                                        {(histories?.[0] || reference.generatedImproved) && (
-                                            <button className="zoom-button" aria-label="Zoom image" onClick={(e) => { e.stopPropagation(); const src = histories?.[0] ? histories[0]!.nodes[histories[0]!.currentId].imageData : (reference.generatedImproved || ''); if (src) onZoomImage(src); }}><ZoomIcon /></button>
-                                        )}
-                                        {(histories?.[0] || reference.generatedImproved) && (
-                                        <button className="info-button" title="View generation prompt" onClick={(e) => { e.stopPropagation(); onOpenPrompt(reference.proposedPrompts?.[0] || 'No prompt available'); }}>i</button>
-                                        )}
-                                    </div>
-                                    <EditInput imageIndex={0} />
-                                </div>
-                                <div className="image-column">
-                                    <div className={`generated-image-wrapper ${reference.selectedIndex === 1 ? 'selected' : ''}`} onClick={() => onSelect(1)}>
-                                        {renderVersionBadge(histories?.[1])}
-                                        {renderNavArrows(histories?.[1], 1)}
-                                        { (histories?.[1] || generatedVariation) ? (
-                                            <img src={histories?.[1] ? histories[1]!.nodes[histories[1]!.currentId].imageData : generatedVariation!} alt="Generated image option 2" className="generated-image" onError={(e) => { e.stopPropagation(); onImageError(1); }} />
-                                        ) : (
-                                            <div className="generated-image-wrapper placeholder">Image 2 failed</div>
-                                        )}
-                                        {(histories?.[1] || generatedVariation) && (
-                                            <button className="zoom-button" aria-label="Zoom image" onClick={(e) => { e.stopPropagation(); const src = histories?.[1] ? histories[1]!.nodes[histories[1]!.currentId].imageData : (generatedVariation || ''); if (src) onZoomImage(src); }}><ZoomIcon /></button>
-                                        )}
-                                        {(histories?.[1] || generatedVariation) && (
-                                        <button className="info-button" title="View generation prompt" onClick={(e) => { e.stopPropagation(); onOpenPrompt(reference.proposedPrompts?.[1] || 'No prompt available'); }}>i</button>
-                                        )}
-                                    </div>
-                                    <EditInput imageIndex={1} />
-                                </div>
+                {reference.outcome && (
+                    <div className="outcome-panel">
+                        {reference.outcome === 'keep-original' && originalImage && (
+                            <div className="generated-image-wrapper selected" onClick={() => onZoomImage(originalImage)}>
+                                <img src={originalImage} alt="Original image" className="generated-image" />
                             </div>
                         )}
-                        {reference.improvedError && <p className="generation-error small">{reference.improvedError}</p>}
-                        {variationError && <p className="generation-error small">{variationError}</p>}
+                        {reference.formatIssue && <p className="generation-error small">{reference.formatIssue}</p>}
+                        <p className="status-text">
+                            {reference.outcome === 'skip'
+                                ? 'Skipped: this reference is left untouched in the Markdown.'
+                                : 'Keeping the original image and path.'}
+                        </p>
+                        <button className="path-candidate" onClick={() => onChooseOutcome(undefined)}>Choose a generated image instead</button>
                     </div>
                 )}
-                {status === 'to-generate' && (
+                {status === 'existing' && !reference.outcome && isVectorOriginal && (
+                    <p className="vector-original">The original is a vector image and the proposals below are raster renderings. Choose “Keep original” to export the SVG as is.</p>
+                )}
+                {!reference.outcome && (
                     <>
                         {isGeneratingPrompts && !generationError && (
                             <div className="loading-prompts">
                                 <InlineSpinner />
                                 <span>Analyzing context to generate prompts...</span>
+                                <button className="cancel-button" onClick={onCancelGeneration}>Cancel</button>
                             </div>
                         )}
-                         {isGeneratingImages && (
+                        {isGeneratingImages && (
                             <div className="generation-result is-loading">
                                 <div className="loading-images-header">
                                     <InlineSpinner />
                                     <span>Generating images... This may take a moment.</span>
+                                    <button className="cancel-button" onClick={onCancelGeneration}>Cancel</button>
                                 </div>
-                                {/* Context button hidden during loading */}
-                                <div className="generated-images-container">
-                                    <div className="generated-image-wrapper skeleton" aria-busy="true" aria-label="Loading image 1"></div>
-                                    <div className="generated-image-wrapper skeleton" aria-busy="true" aria-label="Loading image 2"></div>
-                                </div>
+                                {renderSkeletons()}
+                            </div>
+                        )}
+                        {generationError && (
+                            <div className="generation-stopped">
+                                <p className="generation-error">{generationError}</p>
+                                {reference.generationErrorKind && ERROR_GUIDANCE[reference.generationErrorKind] && (
+                                    <p className="error-guidance">{ERROR_GUIDANCE[reference.generationErrorKind]}</p>
+                                )}
+                                {!generatedImages && <button className="path-candidate" onClick={onRestart}>Try again</button>}
                             </div>
                         )}
-                        {generationError && <p className="generation-error">{generationError}</p>}
-                        {generatedImages && (
+                        {reference.queueState === 'cancelled' && !generatedImages && !isGeneratingPrompts && !isGeneratingImages && (
+                            <div className="generation-stopped">
+                                <p className="status-text">Generation cancelled.</p>
+                                <button className="path-candidate" onClick={onRestart}>Generate again</button>
+                            </div>
+                        )}
+                        {generatedImages && !isGeneratingImages && (
                             <div className="generation-result">
-                                {/* context button moved to header */}
-                                <div className="generated-images-container">
-                                    {generatedImages[0] && reference.proposedPrompts?.[0] && !reference.loadErrors?.[0] ? (
-                                        <div className="image-column">
-                                        <div className={`generated-image-wrapper ${reference.selectedIndex === 0 ? 'selected' : ''}`} onClick={() => onSelect(0)}>
-                                            {renderVersionBadge(histories?.[0])}
-                                            {renderNavArrows(histories?.[0], 0)}
-                                            <img src={histories?.[0] ? histories[0]!.nodes[histories[0]!.currentId].imageData : generatedImages[0]!} alt="Generated image option 1" className="generated-image" onError={(e) => { e.stopPropagation(); onImageError(0); }} />
-                                            <button className="zoom-button" aria-label="Zoom image" onClick={(e) => { e.stopPropagation(); const src = histories?.[0] ? histories[0]!.nodes[histories[0]!.currentId].imageData : (generatedImages[0] || ''); if (src) onZoomImage(src); }}><ZoomIcon /></button>
-                                            <button className="info-button" title="View generation prompt" onClick={(e) => { e.stopPropagation(); onOpenPrompt(reference.proposedPrompts?.[0] || 'No prompt available'); }}>i</button>
-                                          </div>
-                                          <EditInput imageIndex={0} />
-                                          </div>
-                                    ) : (
-                                        <div className="generated-image-wrapper placeholder">
-                                            {reference.isRetrying ? (
-                                                <InlineSpinner />
-                                            ) : (
-                                                <>
-                                                    Image 1 failed
-                                                    <button className="retry-button" onClick={(e) => { e.stopPropagation(); onRegenerate(0); }}>Try again</button>
-                                                </>
-                                            )}
-                                        </div>
-                                    )}
-                                    {generatedImages[1] && reference.proposedPrompts?.[1] && !reference.loadErrors?.[1] ? (
-                                        <div className="image-column">
-                                        <div className={`generated-image-wrapper ${reference.selectedIndex === 1 ? 'selected' : ''}`} onClick={() => onSelect(1)}>
-                                            {renderVersionBadge(histories?.[1])}
-                                            {renderNavArrows(histories?.[1], 1)}
-                                          <img src={histories?.[1] ? histories[1]!.nodes[histories[1]!.currentId].imageData : generatedImages[1]!} alt="Generated image option 2" className="generated-image" onError={(e) => { e.stopPropagation(); onImageError(1); }} />
-                                          <button className="zoom-button" aria-label="Zoom image" onClick={(e) => { e.stopPropagation(); const src = histories?.[1] ? histories[1]!.nodes[histories[1]!.currentId].imageData : (generatedImages[1] || ''); if (src) onZoomImage(src); }}><ZoomIcon /></button>
-                                          <button className="info-button" title="View generation prompt" onClick={(e) => { e.stopPropagation(); onOpenPrompt(reference.proposedPrompts?.[1] || 'No prompt available'); }}>i</button>
-                                          </div>
-                                          <EditInput imageIndex={1} />
-                                          </div>
-                                    ) : (
-                                        <div className="generated-image-wrapper placeholder">
-                                            {reference.isRetrying ? (
-                                                <InlineSpinner />
-                                            ) : (
-                                                <>
-                                                    Image 2 failed
-                                                    <button className="retry-button" onClick={(e) => { e.stopPropagation(); onRegenerate(1); }}>Try again</button>
-                                                </>
-                                            )}
-                                        </div>
-                                    )}
+                                <div className="generated-images-container" style={gridStyle}>
+                                    {generatedImages.map((_, i) => renderSlot(i))}
                                 </div>
                             </div>
                         )}
+                        {!isGeneratingPrompts && !isGeneratingImages && (
+                            promptSlot === 'new' ? (
+                                <PromptEditor
+                                    prompt=""
+                                    editable
+                                    busy={false}
+                                    submitLabel="Generate"
+                                    placeholder="Describe the image you want…"
+                                    onSubmit={(prompt) => {
+                                        onGenerateFromPrompt(null, prompt);
+                                        setPromptSlot(null);
+                                    }}
+                                    onClose={() => setPromptSlot(null)}
+                                />
+                            ) : (
+                                <button className="path-candidate own-prompt-button" onClick={() => setPromptSlot('new')}>Write your own prompt</button>
+                            )
+                        )}
                     </>
                 )}
             </div>
@@ -0,0 +1,134 @@
+import React from 'react';
+import { paintingToMask } from '../services/mask';
+
+interface MaskEditorProps {
+    imageSrc: string;
+    // The instruction and a white-on-black mask PNG at the image's own size
+    onSubmit: (instruction: string, mask: string) => void;
+}
+
+type MaskTool = 'brush' | 'rectangle';
+
+// Where the current stroke started or last was, in canvas pixels, and the painting before a rectangle
+interface Stroke {
+    x: number;
+    y: number;
+    before?: ImageData;
+}
+
+/** The image with a paint layer on top: brush or rectangle strokes mark the region an edit may change. */
+export const MaskEditor = ({ imageSrc, onSubmit }: MaskEditorProps) => {
+    const canvasRef = React.useRef<HTMLCanvasElement>(null);
+    const stroke = React.useRef<Stroke | null>(null);
+    const [tool, setTool] = React.useState<MaskTool>('brush');
+    // On-screen pixels; scaled to the image's resolution when painting
+    const [brushSize, setBrushSize] = React.useState(32);
+    const [hasMask, setHasMask] = React.useState(false);
+    const [instruction, setInstruction] = React.useState('');
+
+    const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        const scale = canvas.width / rect.width;
+        return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * (canvas.height / rect.height), scale };
+    };
+
+    const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const context = e.currentTarget.getContext('2d');
+        if (!context) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y, scale } = toCanvas(e);
+        context.fillStyle = context.strokeStyle = '#ff3b30';
+        if (tool === 'brush') {
+            context.beginPath();
+            context.arc(x, y, (brushSize * scale) / 2, 0, Math.PI * 2);
+            context.fill();
+            stroke.current = { x, y };
+            setHasMask(true);
+        } else {
+            stroke.current = { x, y, before: context.getImageData(0, 0, e.currentTarget.width, e.currentTarget.height) };
+        }
+    };
+
+    const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const start = stroke.current;
+        const context = e.currentTarget.getContext('2d');
+        if (!start || !context) return;
+        const { x, y, scale } = toCanvas(e);
+        if (start.before) {
+            context.putImageData(start.before, 0, 0);
+            context.fillRect(Math.min(start.x, x), Math.min(start.y, y), Math.abs(x - start.x), Math.abs(y - start.y));
+            setHasMask(true);
+            return;
+        }
+        context.lineWidth = brushSize * scale;
+        context.lineCap = 'round';
+        context.beginPath();
+        context.moveTo(start.x, start.y);
+        context.lineTo(x, y);
+        context.stroke();
+        stroke.current = { x, y };
+    };
+
+    const onPointerUp = () => {
+        stroke.current = null;
+    };
+
+    const clear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const text = instruction.trim();
+    const submit = () => {
+        if (!text || !hasMask || !canvasRef.current) return;
+        onSubmit(text, paintingToMask(canvasRef.current));
+    };
+
+    return (
+        <div className="mask-editor">
+            <div className="mask-editor-toolbar" role="group" aria-label="Mask tools">
+                <button type="button" className={`outcome-choice ${tool === 'brush' ? 'active' : ''}`} aria-pressed={tool === 'brush'} onClick={() => setTool('brush')}>Brush</button>
+                <button type="button" className={`outcome-choice ${tool === 'rectangle' ? 'active' : ''}`} aria-pressed={tool === 'rectangle'} onClick={() => setTool('rectangle')}>Rectangle</button>
+                {tool === 'brush' && (
+                    <label className="mask-brush-size">
+                        Size
+                        <input type="range" min={8} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+                    </label>
+                )}
+                <button type="button" className="path-candidate" onClick={clear} disabled={!hasMask}>Clear</button>
+            </div>
+            <div className="mask-editor-canvas">
+                <img src={imageSrc} alt="Preview" onLoad={onImageLoad} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerCancel={onPointerUp}
+                    aria-label="Paint the region to edit"
+                />
+            </div>
+            <div className="mask-editor-instruction">
+                <input
+                    type="text"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+                    placeholder={hasMask ? 'What should change in the marked region? e.g. remove the cup' : 'Paint over the region to change, then describe the edit'}
+                    aria-label="Edit instruction for the marked region"
+                />
+                <button type="button" className="retry-button" onClick={submit} disabled={!text || !hasMask}>Edit region</button>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { MaskEditor } from './MaskEditor';
 
 interface ModalProps {
     isOpen: boolean;
@@ -6,13 +7,21 @@ interface ModalProps {
     content?: string;
     imageSrc?: string;
     title?: string;
+    // Offers drawing a mask over the image for an edit limited to that region
+    onMaskEdit?: (instruction: string, mask: string) => void;
 }
 
-export const Modal = ({ isOpen, onClose, content = "", imageSrc, title = "Markdown Context" }: ModalProps) => {
+export const Modal = ({ isOpen, onClose, content = "", imageSrc, title = "Markdown Context", onMaskEdit }: ModalProps) => {
+    // Only a click that also started on the backdrop closes it, so a stroke ending outside the image does not
+    const pressedBackdrop = React.useRef(false);
     if (!isOpen) return null;
 
     return (
-        <div className="modal-overlay" onClick={onClose}>
+        <div
+            className="modal-overlay"
+            onPointerDown={(e) => { pressedBackdrop.current = e.target === e.currentTarget; }}
+            onClick={(e) => { if (pressedBackdrop.current && e.target === e.currentTarget) onClose(); }}
+        >
             <div className="modal-content" onClick={(e) => e.stopPropagation()}>
                 <div className="modal-header">
                     <h3>{title}</h3>
@@ -20,7 +29,7 @@ export const Modal = ({ isOpen, onClose, content = "", imageSrc, title = "Markdo
                 </div>
                 <div className="modal-body">
                     {imageSrc ? (
-                        <img src={imageSrc} alt="Preview" />
+                        onMaskEdit ? <MaskEditor imageSrc={imageSrc} onSubmit={onMaskEdit} /> : <img src={imageSrc} alt="Preview" />
                     ) : (
                         <pre><code>{content}</code></pre>
                     )}
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { ImageHistory } from './ImageReferenceItem';
+
+interface PromptEditorProps {
+    prompt: string;
+    // Versions of the slot, listed with the prompt or edit instruction behind each
+    history?: ImageHistory | null;
+    // Read-only when the slot is not made from a prompt (the improved original)
+    editable: boolean;
+    busy: boolean;
+    submitLabel: string;
+    placeholder?: string;
+    onSubmit: (prompt: string) => void;
+    onClose: () => void;
+}
+
+export const PromptEditor = ({ prompt, history, editable, busy, submitLabel, placeholder, onSubmit, onClose }: PromptEditorProps) => {
+    const [value, setValue] = React.useState(prompt);
+    const text = value.trim();
+    const submit = () => {
+        if (!text || busy) return;
+        onSubmit(text);
+    };
+    const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') submit();
+        if (e.key === 'Escape') onClose();
+    };
+
+    return (
+        <div className="prompt-editor" onClick={(e) => e.stopPropagation()}>
+            <textarea
+                className="prompt-editor-text"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={onKeyDown}
+                readOnly={!editable}
+                placeholder={placeholder}
+                rows={5}
+                aria-label="Generation prompt"
+            />
+            <div className="prompt-editor-actions">
+                <button type="button" className="path-candidate" onClick={onClose}>Close</button>
+                {editable && (
+                    <button type="button" className="retry-button" onClick={submit} disabled={!text || busy}>
+                        {busy ? 'Generating…' : submitLabel}
+                    </button>
+                )}
+            </div>
+            {history && history.order.length > 0 && (
+                <ol className="prompt-history" aria-label="Versions of this image">
+                    {history.order.map((id, i) => {
+                        const node = history.nodes[id];
+                        return (
+                            <li key={id} className={id === history.currentId ? 'current' : ''}>
+                                <span className="prompt-history-version">v{i + 1}</span>
+                                {node.instruction
+                                    ? <>{node.masked ? 'Region edit' : 'Edit'}: {node.instruction}</>
+                                    : node.prompt ? <>Prompt: {node.prompt}</> : 'Generated'}
+                                {node.rephrasedFrom && <span className="prompt-history-rephrased">Rephrased from: {node.rephrasedFrom}</span>}
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </div>
+    );
+};
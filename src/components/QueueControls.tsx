@@ -0,0 +1,40 @@
+import React from 'react';
+import type { ImageReference } from './ImageReferenceItem';
+
+interface QueueControlsProps {
+    references: ImageReference[];
+    paused: boolean;
+    concurrency: number;
+    // Background generation holds until the first pick sets the style reference
+    waitingForStyle: boolean;
+    onTogglePause: () => void;
+    onChangeConcurrency: (limit: number) => void;
+}
+
+const CONCURRENCY_LIMITS = [1, 2, 3, 4];
+
+export const QueueControls = ({ references, paused, concurrency, waitingForStyle, onTogglePause, onChangeConcurrency }: QueueControlsProps) => {
+    const count = (state: ImageReference['queueState']) => references.filter(ref => ref.queueState === state).length;
+    const queued = count('queued');
+    const running = count('running');
+    const failed = count('failed');
+    const ready = references.filter(ref => ref.generatedImages || ref.outcome).length;
+
+    return (
+        <div className="queue-controls" role="status">
+            <span className="queue-summary">
+                {ready} of {references.length} ready · {running} generating · {queued} queued{failed > 0 && ` · ${failed} failed`}
+                {waitingForStyle && <span className="queue-note"> · Waiting for the first pick to set the style</span>}
+            </span>
+            <label className="queue-concurrency">
+                At once
+                <select value={concurrency} onChange={(e) => onChangeConcurrency(Number(e.target.value))}>
+                    {CONCURRENCY_LIMITS.map(limit => <option key={limit} value={limit}>{limit}</option>)}
+                </select>
+            </label>
+            <button type="button" className="queue-toggle" onClick={onTogglePause} aria-pressed={paused}>
+                {paused ? 'Resume background generation' : 'Pause background generation'}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { StyleGuide } from '../services/styleGuide';
+
+interface StyleGuideEditorProps {
+    // The reference's own overrides; undefined fields follow the document
+    value: Partial<StyleGuide>;
+    // What the reference gets without an override, shown as placeholders
+    inherited: StyleGuide;
+    disabled: boolean;
+    // Empty fields go back to the inherited text
+    onApply: (value: Partial<StyleGuide>) => void;
+    onClose: () => void;
+}
+
+export const StyleGuideEditor = ({ value, inherited, disabled, onApply, onClose }: StyleGuideEditorProps) => {
+    const [guide, setGuide] = React.useState(value.guide ?? '');
+    const [avoid, setAvoid] = React.useState(value.avoid ?? '');
+    const apply = () => onApply({ guide: guide.trim() || undefined, avoid: avoid.trim() || undefined });
+
+    return (
+        <div className="prompt-editor style-guide-editor">
+            <label className="style-guide-label">
+                Style guide for this image
+                <textarea
+                    className="prompt-editor-text"
+                    value={guide}
+                    onChange={(e) => setGuide(e.target.value)}
+                    placeholder={inherited.guide || 'No style guide set for the document'}
+                    rows={2}
+                />
+            </label>
+            <label className="style-guide-label">
+                Never include
+                <textarea
+                    className="prompt-editor-text"
+                    value={avoid}
+                    onChange={(e) => setAvoid(e.target.value)}
+                    placeholder={inherited.avoid || 'No constraints set for the document'}
+                    rows={2}
+                />
+            </label>
+            <div className="prompt-editor-actions">
+                <button type="button" className="path-candidate" onClick={onClose}>Close</button>
+                <button type="button" className="retry-button" onClick={apply} disabled={disabled}>Apply and generate again</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { downloadJson } from '../services/download';
+import { readAsDataUrl } from '../services/imageFormats';
+import { newRecordId } from '../services/storage';
+import { MAX_STYLE_IMAGES, parsePresetFile, presetFilename, serializePreset, type StylePreset } from '../services/styles';
+
+interface StyleLibraryProps {
+    presets: StylePreset[];
+    onSave: (preset: StylePreset) => Promise<void>;
+    onRemove: (id: string) => Promise<void>;
+    // Preset for every document unless one is chosen for the document or the reference; '' for none
+    defaultPresetId: string;
+    onChangeDefault: (id: string) => void;
+    // Documents selected in a multi-document archive, each of which can use its own preset
+    documentPaths: string[];
+    documentPresets: Record<string, string>;
+    onChangeDocument: (path: string, id: string | undefined) => void;
+}
+
+export const StyleLibrary = ({ presets, onSave, onRemove, defaultPresetId, onChangeDefault, documentPaths, documentPresets, onChangeDocument }: StyleLibraryProps) => {
+    const [name, setName] = React.useState('');
+    const [guide, setGuide] = React.useState('');
+    const [images, setImages] = React.useState<string[]>([]);
+    const [error, setError] = React.useState('');
+    const importInput = React.useRef<HTMLInputElement>(null);
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'The style library could not be updated.');
+        }
+    };
+    const addImages = (files: FileList | null) => run(async () => {
+        const added = await Promise.all(Array.from(files || []).map(readAsDataUrl));
+        setImages(prev => [...prev, ...added].slice(0, MAX_STYLE_IMAGES));
+    });
+    const save = () => run(async () => {
+        await onSave({ id: newRecordId(), name: name.trim(), guide: guide.trim(), images, createdAt: Date.now() });
+        setName('');
+        setGuide('');
+        setImages([]);
+    });
+    const importPreset = (file?: File) => file && run(async () => {
+        await onSave(parsePresetFile(await file.text()));
+    });
+
+    const presetOptions = presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>);
+
+    return (
+        <div className="style-library">
+            <h3>Style presets</h3>
+            <label className="style-library-choice">
+                Style for all documents
+                <select value={defaultPresetId} onChange={(e) => onChangeDefault(e.target.value)}>
+                    <option value="">Style image above (or none)</option>
+                    {presetOptions}
+                </select>
+            </label>
+            {documentPaths.length > 1 && presets.length > 0 && documentPaths.map(path => (
+                <label key={path} className="style-library-choice">
+                    <span className="style-library-document" title={path}>{path}</span>
+                    <select value={documentPresets[path] ?? 'default'} onChange={(e) => onChangeDocument(path, e.target.value === 'default' ? undefined : e.target.value)}>
+                        <option value="default">Same as all documents</option>
+                        <option value="">Style image above (or none)</option>
+                        {presetOptions}
+                    </select>
+                </label>
+            ))}
+
+            {presets.length > 0 && (
+                <ul className="style-preset-list">
+                    {presets.map(preset => (
+                        <li key={preset.id} className="style-preset">
+                            <span className="style-preset-images">
+                                {preset.images.map((image, i) => <img key={i} src={image} alt="" />)}
+                            </span>
+                            <span className="style-preset-text">
+                                <span className="style-preset-name">{preset.name}</span>
+                                {preset.guide && <span className="style-preset-guide" title={preset.guide}>{preset.guide}</span>}
+                            </span>
+                            <button type="button" className="path-candidate" onClick={() => downloadJson(presetFilename(preset), serializePreset(preset))}>Export</button>
+                            <button type="button" className="path-candidate" onClick={() => run(() => onRemove(preset.id))}>Delete</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="style-preset-form">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Preset name" aria-label="Preset name" />
+                <textarea value={guide} onChange={(e) => setGuide(e.target.value)} placeholder="Style guide, e.g. flat vector shapes, muted palette, no text" rows={2} aria-label="Style guide" />
+                <div className="style-preset-images editable">
+                    {images.map((image, i) => (
+                        <button key={i} type="button" className="style-preset-image" onClick={() => setImages(prev => prev.filter((_, j) => j !== i))} title="Remove this image">
+                            <img src={image} alt={`Style reference ${i + 1}`} />
+                        </button>
+                    ))}
+                    {images.length < MAX_STYLE_IMAGES && (
+                        <label className="path-candidate">
+                            Add reference image{images.length ? '' : 's'} ({images.length}/{MAX_STYLE_IMAGES})
+                            <input type="file" accept="image/png,image/jpeg,image/webp" multiple hidden onChange={(e) => { addImages(e.target.files); e.target.value = ''; }} />
+                        </label>
+                    )}
+                </div>
+                <div className="style-preset-actions">
+                    <button type="button" className="path-candidate" onClick={() => importInput.current?.click()}>Import preset…</button>
+                    <input ref={importInput} type="file" accept=".json,application/json" hidden onChange={(e) => { importPreset(e.target.files?.[0]); e.target.value = ''; }} />
+                    <button type="button" className="retry-button" onClick={save} disabled={!name.trim() || !images.length}>Save preset</button>
+                </div>
+                {error && <p className="generation-error small">{error}</p>}
+            </div>
+        </div>
+    );
+};
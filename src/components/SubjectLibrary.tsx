@@ -0,0 +1,87 @@
+import React from 'react';
+import { readAsDataUrl } from '../services/imageFormats';
+import { newRecordId } from '../services/storage';
+import { MAX_SUBJECT_IMAGES, parseAliases, type Subject } from '../services/subjects';
+
+interface SubjectLibraryProps {
+    subjects: Subject[];
+    onSave: (subject: Subject) => Promise<void>;
+    onRemove: (id: string) => Promise<void>;
+}
+
+export const SubjectLibrary = ({ subjects, onSave, onRemove }: SubjectLibraryProps) => {
+    const [name, setName] = React.useState('');
+    const [aliases, setAliases] = React.useState('');
+    const [description, setDescription] = React.useState('');
+    const [images, setImages] = React.useState<string[]>([]);
+    const [error, setError] = React.useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'The subject could not be saved.');
+        }
+    };
+    const addImages = (files: FileList | null) => run(async () => {
+        const added = await Promise.all(Array.from(files || []).map(readAsDataUrl));
+        setImages(prev => [...prev, ...added].slice(0, MAX_SUBJECT_IMAGES));
+    });
+    const save = () => run(async () => {
+        await onSave({ id: newRecordId(), name: name.trim(), aliases: parseAliases(aliases), description: description.trim(), images, createdAt: Date.now() });
+        setName('');
+        setAliases('');
+        setDescription('');
+        setImages([]);
+    });
+
+    return (
+        <div className="style-library">
+            <h3>Recurring subjects</h3>
+            <p className="subject-library-hint">
+                Characters or objects that appear in several images. When a reference's context mentions one by name or alias, its images and description are sent with every generation and edit.
+            </p>
+
+            {subjects.length > 0 && (
+                <ul className="style-preset-list">
+                    {subjects.map(subject => (
+                        <li key={subject.id} className="style-preset">
+                            <span className="style-preset-images">
+                                {subject.images.map((image, i) => <img key={i} src={image} alt="" />)}
+                            </span>
+                            <span className="style-preset-text">
+                                <span className="style-preset-name">{[subject.name, ...subject.aliases].join(' · ')}</span>
+                                {subject.description && <span className="style-preset-guide" title={subject.description}>{subject.description}</span>}
+                            </span>
+                            <button type="button" className="path-candidate" onClick={() => run(() => onRemove(subject.id))}>Delete</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="style-preset-form">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Pip" aria-label="Subject name" />
+                <input type="text" value={aliases} onChange={(e) => setAliases(e.target.value)} placeholder="Other names, comma separated (optional)" aria-label="Other names" />
+                <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What it looks like, e.g. small round orange robot with one antenna" rows={2} aria-label="Subject description" />
+                <div className="style-preset-images editable">
+                    {images.map((image, i) => (
+                        <button key={i} type="button" className="style-preset-image" onClick={() => setImages(prev => prev.filter((_, j) => j !== i))} title="Remove this image">
+                            <img src={image} alt={`Reference ${i + 1}`} />
+                        </button>
+                    ))}
+                    {images.length < MAX_SUBJECT_IMAGES && (
+                        <label className="path-candidate">
+                            Add reference image{images.length ? '' : 's'} ({images.length}/{MAX_SUBJECT_IMAGES})
+                            <input type="file" accept="image/png,image/jpeg,image/webp" multiple hidden onChange={(e) => { addImages(e.target.files); e.target.value = ''; }} />
+                        </label>
+                    )}
+                </div>
+                <div className="style-preset-actions">
+                    <button type="button" className="retry-button" onClick={save} disabled={!name.trim() || !images.length}>Save subject</button>
+                </div>
+                {error && <p className="generation-error small">{error}</p>}
+            </div>
+        </div>
+    );
+};
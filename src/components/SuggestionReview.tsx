@@ -0,0 +1,58 @@
+import React from 'react';
+import { CheckIcon } from './icons';
+import type { ImageSuggestion } from '../services/suggestions';
+
+interface SuggestionReviewProps {
+    suggestions: ImageSuggestion[];
+    // Show each suggestion's document when several documents are illustrated
+    showDocument: boolean;
+    onAccept: (accepted: ImageSuggestion[]) => void;
+    onCancel: () => void;
+}
+
+export const SuggestionReview = ({ suggestions, showDocument, onAccept, onCancel }: SuggestionReviewProps) => {
+    const [selected, setSelected] = React.useState<boolean[]>(() => suggestions.map(() => true));
+    const [alts, setAlts] = React.useState<string[]>(() => suggestions.map(s => s.alt));
+
+    const toggle = (index: number) => setSelected(prev => prev.map((value, i) => i === index ? !value : value));
+    const accepted = suggestions
+        .map((suggestion, i) => ({ ...suggestion, alt: alts[i].trim() || suggestion.alt }))
+        .filter((_, i) => selected[i]);
+
+    return (
+        <section className="suggestion-review">
+            <h2>Suggested images</h2>
+            <p className="suggestion-review-sub">Gemini proposed where images would help in documents without any. Accept the ones you want and adjust their descriptions.</p>
+            <ul className="suggestion-list">
+                {suggestions.map((suggestion, i) => (
+                    <li key={`${suggestion.documentPath}:${suggestion.insertAt}`} className={`suggestion-item ${selected[i] ? 'selected' : ''}`}>
+                        <label className="checkbox-container">
+                            <input type="checkbox" checked={selected[i]} onChange={() => toggle(i)} />
+                            <span className="checkbox-custom">
+                                <CheckIcon />
+                            </span>
+                            <span className="suggestion-anchor" title={suggestion.anchor}>
+                                {showDocument && `${suggestion.documentPath} · `}Line {suggestion.lineNumber}: {suggestion.anchor}
+                            </span>
+                        </label>
+                        {suggestion.rationale && <p className="suggestion-rationale">{suggestion.rationale}</p>}
+                        <input
+                            className="suggestion-alt"
+                            type="text"
+                            value={alts[i]}
+                            onChange={(e) => setAlts(prev => prev.map((value, j) => j === i ? e.target.value : value))}
+                            disabled={!selected[i]}
+                            aria-label={`Image description for line ${suggestion.lineNumber}`}
+                        />
+                    </li>
+                ))}
+            </ul>
+            <div className="suggestion-actions">
+                <button className="nav-button" onClick={onCancel}>Back</button>
+                <button className="propose-button" onClick={() => onAccept(accepted)} disabled={!accepted.length}>
+                    Illustrate {accepted.length} {accepted.length === 1 ? 'place' : 'places'}
+                </button>
+            </div>
+        </section>
+    );
+};
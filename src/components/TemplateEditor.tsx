@@ -0,0 +1,97 @@
+import React from 'react';
+import { downloadJson } from '../services/download';
+import { activeTemplates, addTemplateVersion, checkTemplate, parseTemplateSetFile, removeTemplateVariant, selectTemplateVariant, serializeTemplateSet, TEMPLATE_NAMES, TEMPLATES, type TemplateLibrary, type TemplateName, type TemplateSet } from '../services/templates';
+
+interface TemplateEditorProps {
+    // The .txt files the app ships with
+    defaults: TemplateSet;
+    library: TemplateLibrary;
+    onChange: (library: TemplateLibrary) => void;
+}
+
+/** Edits the prompt templates, checking placeholders as you type; each save is a new version. */
+export const TemplateEditor = ({ defaults, library, onChange }: TemplateEditorProps) => {
+    const [template, setTemplate] = React.useState<TemplateName>('context');
+    const activeId = library.active[template];
+    const active = library.variants.find(v => v.id === activeId);
+    const inUse = active?.text ?? defaults[template];
+    const [draft, setDraft] = React.useState(inUse);
+    const [name, setName] = React.useState(active?.name ?? '');
+    const [error, setError] = React.useState('');
+    const importInput = React.useRef<HTMLInputElement>(null);
+
+    // Picking another template or version starts the draft from its text
+    React.useEffect(() => {
+        setDraft(inUse);
+        setName(active?.name ?? '');
+        setError('');
+    }, [template, activeId]);
+
+    const issues = checkTemplate(template, draft);
+    const hasUnknown = issues.some(issue => issue.kind === 'unknown');
+    const versions = library.variants
+        .filter(v => v.template === template)
+        .sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+
+    const save = () => onChange(addTemplateVersion(library, template, name.trim(), draft));
+    const importSet = (file?: File) => file && file.text().then(text => {
+        const templates = parseTemplateSetFile(text);
+        const variantName = file.name.replace(/\.json$/i, '').replace(/\.bananamd-templates$/i, '') || 'Imported';
+        onChange(TEMPLATE_NAMES.reduce((next, key) => templates[key] === undefined ? next : addTemplateVersion(next, key, variantName, templates[key]!), library));
+        setError('');
+    }).catch(e => setError(e instanceof Error ? e.message : 'The template set could not be imported.'));
+
+    return (
+        <div className="template-editor">
+            <h3>Prompt templates</h3>
+            <div className="template-editor-choice">
+                <label>
+                    Template
+                    <select value={template} onChange={(e) => setTemplate(e.target.value as TemplateName)}>
+                        {TEMPLATE_NAMES.map(key => (
+                            <option key={key} value={key}>{TEMPLATES[key].label}{library.active[key] ? ' (edited)' : ''}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Version in use
+                    <select value={activeId ?? ''} onChange={(e) => onChange(selectTemplateVariant(library, template, e.target.value || undefined))}>
+                        <option value="">Default ({TEMPLATES[template].file})</option>
+                        {versions.map(v => <option key={v.id} value={v.id}>{v.name} v{v.version}</option>)}
+                    </select>
+                </label>
+            </div>
+            <textarea
+                className="template-editor-text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={14}
+                spellCheck={false}
+                aria-label={`${TEMPLATES[template].label} template`}
+            />
+            <p className="template-editor-placeholders">
+                Placeholders: {TEMPLATES[template].placeholders.map(p => <code key={p}>{`{${p}}`}</code>)}
+            </p>
+            {issues.length > 0 && (
+                <ul className="template-issues" aria-live="polite">
+                    {issues.map(issue => <li key={`${issue.kind}-${issue.placeholder}`} className={`template-issue ${issue.kind}`}>{issue.message}</li>)}
+                </ul>
+            )}
+            <div className="template-editor-actions">
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Version name, e.g. shorter prompts" aria-label="Version name" />
+                <button type="button" className="retry-button" onClick={save} disabled={!name.trim() || draft === inUse || hasUnknown} title={hasUnknown ? 'Fix the unknown placeholders first' : undefined}>
+                    Save version
+                </button>
+                <button type="button" className="path-candidate" onClick={() => setDraft(inUse)} disabled={draft === inUse}>Discard changes</button>
+                <button type="button" className="path-candidate" onClick={() => onChange(selectTemplateVariant(library, template, undefined))} disabled={!active}>Reset to default</button>
+                {active && <button type="button" className="path-candidate" onClick={() => onChange(removeTemplateVariant(library, active.id))}>Delete this version</button>}
+            </div>
+            <div className="template-editor-actions">
+                <button type="button" className="path-candidate" onClick={() => downloadJson('prompt-templates.bananamd-templates.json', serializeTemplateSet(activeTemplates(defaults, library)))}>Export template set</button>
+                <button type="button" className="path-candidate" onClick={() => importInput.current?.click()}>Import template set…</button>
+                <input ref={importInput} type="file" accept=".json,application/json" hidden onChange={(e) => { importSet(e.target.files?.[0]); e.target.value = ''; }} />
+            </div>
+            {error && <p className="generation-error small">{error}</p>}
+        </div>
+    );
+};
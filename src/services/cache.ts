@@ -0,0 +1,118 @@
+import type { Part } from "@google/genai";
+import type { ImageGenerationOptions, RequestOptions } from './genai';
+import type { GenerationProvider } from './provider';
+import { createObjectStore } from './storage';
+
+// Persistent, content-addressed cache of model answers: the same model, templates, prompt and input
+// images give the same key, so re-running a document only pays for what changed.
+
+export interface CacheEntry {
+    key: string;
+    kind: 'text' | 'image';
+    // Provider method and model that produced the answer
+    method: string;
+    model: string;
+    // Start of the prompt, for the inspector
+    label: string;
+    // Text answer, or the image as a data URL
+    value: string;
+    size: number;
+    createdAt: number;
+}
+
+export interface ResponseCache {
+    get(key: string): Promise<CacheEntry | undefined>;
+    put(entry: CacheEntry): Promise<void>;
+    // Newest first
+    list(): Promise<CacheEntry[]>;
+    remove(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Cache stored in IndexedDB. Storage failures (private browsing, full quota) are logged and treated as
+ * misses, so the cache never stops a generation.
+ */
+export const createResponseCache = (): ResponseCache => {
+    const store = createObjectStore<CacheEntry>('bananamd-cache', 'responses', 'key');
+    const quietly = async <T>(action: () => Promise<T>): Promise<T | undefined> => {
+        try {
+            return await action();
+        } catch (e) {
+            console.warn('Response cache unavailable:', e);
+            return undefined;
+        }
+    };
+    return {
+        get: (key) => quietly(() => store.get(key)),
+        put: async (entry) => {
+            await quietly(() => store.put(entry));
+        },
+        list: async () => ((await quietly(() => store.getAll())) || []).sort((a, b) => b.createdAt - a.createdAt),
+        remove: async (key) => {
+            await quietly(() => store.delete(key));
+        },
+        clear: async () => {
+            await quietly(() => store.clear());
+        },
+    };
+};
+
+let responseCache: ResponseCache | null = null;
+
+export const getResponseCache = (): ResponseCache => {
+    if (!responseCache) responseCache = createResponseCache();
+    return responseCache;
+};
+
+export const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Only the options that change the answer are part of the key; subject images are hashed with the inputs
+const optionsKey = ({ aspectRatio, size, fit, styleGuide, extraPrompt, templateVersion, subjects, responseSchema }: ImageGenerationOptions) =>
+    ({ aspectRatio, size, fit, styleGuide, extraPrompt, templateVersion, subjects: subjects?.map(({ name, description }) => ({ name, description })), responseSchema });
+
+const partKeys = (parts: Part[] = []): string[] => parts.map(part => part.inlineData?.data || '');
+
+const subjectKeys = (options: ImageGenerationOptions): string[] => partKeys(options.subjects?.flatMap(subject => subject.images));
+
+/**
+ * Wraps a provider so text, description, image and variation answers are served from the cache when
+ * possible. Edits are not cached: they continue a per-branch chat whose earlier turns are not in the key.
+ * `bypassCache` skips the lookup, and the fresh answer replaces the cached one. Answers `accept` rejects are not stored.
+ */
+export const withResponseCache = (provider: GenerationProvider, cache: ResponseCache): GenerationProvider => {
+    const cached = async (
+        kind: CacheEntry['kind'],
+        method: string,
+        prompt: string,
+        inputs: string[],
+        options: RequestOptions,
+        call: () => Promise<string>
+    ): Promise<string> => {
+        const model = kind === 'text' ? provider.textModel : provider.imageModel;
+        const inputHashes = await Promise.all(inputs.map(input => input ? hashText(input) : ''));
+        const key = await hashText(JSON.stringify([provider.name, model, method, prompt, inputHashes, optionsKey(options)]));
+        if (!options.bypassCache) {
+            const hit = await cache.get(key);
+            if (hit) return hit.value;
+        }
+        const value = await call();
+        if (options.accept && !options.accept(value)) return value;
+        await cache.put({ key, kind, method, model, label: prompt.replace(/\s+/g, ' ').trim().slice(0, 160), value, size: value.length, createdAt: Date.now() });
+        return value;
+    };
+    return {
+        ...provider,
+        completeText: (prompt, options = {}) =>
+            cached('text', 'completeText', prompt, [], options, () => provider.completeText(prompt, options)),
+        describeImage: (imageDataUrl, prompt, options = {}) =>
+            cached('text', 'describeImage', prompt, [imageDataUrl], options, () => provider.describeImage(imageDataUrl, prompt, options)),
+        generateImage: (prompt, styleImages, options = {}) =>
+            cached('image', 'generateImage', prompt, [...partKeys(styleImages), ...subjectKeys(options)], options, () => provider.generateImage(prompt, styleImages, options)),
+        generateVariation: (imageDataUrl, altText, styleImages, options = {}) =>
+            cached('image', 'generateVariation', altText, [imageDataUrl, ...partKeys(styleImages), ...subjectKeys(options)], options, () => provider.generateVariation(imageDataUrl, altText, styleImages, options)),
+    };
+};
@@ -0,0 +1,133 @@
+import { parseAspectRatio, parseImageFit, parseOutputSize, type AspectRatio, type ImageFit, type OutputSize } from './imageSize';
+import type { SourceRange } from './markdown';
+
+/**
+ * Per-image generation directives, written either as an HTML comment right before the image
+ * (`<!-- bananamd: aspect=1:1 size=800x800 style=flat-vector keep-original -->`) or as `data-bananamd-*`
+ * attributes on an `<img>` tag.
+ */
+export interface ImageDirectives {
+    aspectRatio?: AspectRatio;
+    // Output size (`size=1280x720` or `size=800`) and how the image is brought to it
+    size?: OutputSize;
+    fit?: ImageFit;
+    // Extra prompt text: `style=flat-vector` and/or `prompt="..."`
+    style?: string;
+    prompt?: string;
+    skip?: boolean;
+    keepOriginal?: boolean;
+    // Generate a new image even when the reference points at an existing one
+    regenerate?: boolean;
+    // Number of proposals to generate (1–6)
+    proposals?: number;
+}
+
+export interface FoundDirectives {
+    directives: ImageDirectives;
+    // Source of the directive comment (including its trailing line break), when written as a comment
+    commentRange?: SourceRange;
+}
+
+// The comment must end right before the image; `-->` cannot occur inside it, so an earlier image's comment is never reached
+const DIRECTIVE_COMMENT_REGEX = /<!--\s*bananamd:((?:(?!-->)[\s\S])*?)-->([ \t]*(?:\r?\n)?[ \t]*)$/i;
+const DATA_ATTRIBUTE_REGEX = /\sdata-bananamd-([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/gi;
+
+export const MAX_PROPOSALS = 6;
+
+/** Reads a proposal count, clamped to 1–6; undefined when the value is not a number. */
+export const parseProposalCount = (value: unknown): number | undefined => {
+    const count = Math.round(Number(value));
+    return Number.isFinite(count) && count > 0 ? Math.min(MAX_PROPOSALS, count) : undefined;
+};
+
+const isTruthy = (value: string | undefined): boolean => value === undefined || !/^(false|no|0|off)$/i.test(value);
+
+const applyDirective = (directives: ImageDirectives, key: string, value: string | undefined) => {
+    switch (key.toLowerCase()) {
+        case 'aspect':
+        case 'aspect-ratio':
+            directives.aspectRatio = parseAspectRatio(value) ?? directives.aspectRatio;
+            break;
+        case 'size':
+        case 'resolution':
+        case 'width':
+            directives.size = parseOutputSize(value) ?? directives.size;
+            break;
+        case 'fit':
+            directives.fit = parseImageFit(value) ?? directives.fit;
+            break;
+        case 'style':
+            if (value) directives.style = value;
+            break;
+        case 'prompt':
+            if (value) directives.prompt = value;
+            break;
+        case 'skip':
+            directives.skip = isTruthy(value);
+            break;
+        case 'keep-original':
+        case 'keep':
+            directives.keepOriginal = isTruthy(value);
+            break;
+        case 'regenerate':
+        case 'force-regenerate':
+            directives.regenerate = isTruthy(value);
+            break;
+        case 'proposals':
+        case 'count':
+            directives.proposals = parseProposalCount(value) ?? directives.proposals;
+            break;
+        default:
+            console.warn(`Unknown BananaMD directive "${key}" ignored.`);
+    }
+};
+
+/** Parses `key=value key="quoted value" flag` tokens. */
+export const parseDirectiveText = (text: string): ImageDirectives => {
+    const directives: ImageDirectives = {};
+    const tokenRegex = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?/g;
+    let match;
+    while ((match = tokenRegex.exec(text)) !== null) {
+        applyDirective(directives, match[1], match[2] ?? match[3] ?? match[4]);
+    }
+    return directives;
+};
+
+/** Reads the directives that apply to an image starting at `match.startIndex`, or null when there are none. */
+export const findDirectives = (content: string, match: SourceRange & { syntax: string }): FoundDirectives | null => {
+    let found: FoundDirectives | null = null;
+
+    const before = content.slice(Math.max(0, match.startIndex - 2000), match.startIndex);
+    const comment = before.match(DIRECTIVE_COMMENT_REGEX);
+    if (comment && comment.index !== undefined) {
+        const startIndex = match.startIndex - before.length + comment.index;
+        const trailingBreak = comment[2].match(/^[ \t]*\r?\n/)?.[0].length ?? 0;
+        found = {
+            directives: parseDirectiveText(comment[1]),
+            commentRange: { startIndex, matchLength: comment[0].length - comment[2].length + trailingBreak },
+        };
+    }
+
+    if (match.syntax === 'html') {
+        const tag = content.slice(match.startIndex, match.startIndex + match.matchLength);
+        let attribute;
+        DATA_ATTRIBUTE_REGEX.lastIndex = 0;
+        while ((attribute = DATA_ATTRIBUTE_REGEX.exec(tag)) !== null) {
+            found = found || { directives: {} };
+            applyDirective(found.directives, attribute[1], attribute[2] ?? attribute[3] ?? attribute[4]);
+        }
+    }
+    return found;
+};
+
+/** Removes `data-bananamd-*` attributes from an `<img>` tag. */
+export const stripDirectiveAttributes = (tag: string): string => tag.replace(DATA_ATTRIBUTE_REGEX, '');
+
+/** Extra prompt text for the image model derived from the directives. */
+export const directivePromptText = (directives?: ImageDirectives): string => {
+    if (!directives) return '';
+    const parts: string[] = [];
+    if (directives.style) parts.push(`Render it in this style: ${directives.style.replace(/[-_]+/g, ' ')}.`);
+    if (directives.prompt) parts.push(directives.prompt);
+    return parts.join(' ');
+};
@@ -0,0 +1,53 @@
+import type JSZip from 'jszip';
+import { basename } from './paths';
+import { readBananaConfig, readFrontMatter, type BananaConfig } from './frontMatter';
+
+export interface MarkdownDocument {
+    // Path inside the uploaded archive (or the file name for a single .md upload)
+    path: string;
+    content: string;
+    // Offset where the body starts after any YAML front matter (0 when there is none)
+    bodyStart: number;
+    // Settings from the front matter `bananamd:` block
+    config?: BananaConfig;
+}
+
+export const readDocument = (path: string, content: string): MarkdownDocument => {
+    const frontMatter = readFrontMatter(content);
+    return { path, content, bodyStart: frontMatter?.bodyStart ?? 0, config: readBananaConfig(frontMatter) };
+};
+
+const isMarkdownPath = (path: string): boolean => /\.md$/i.test(path) && !path.startsWith('__MACOSX/') && !basename(path).startsWith('._');
+
+/** Lists every Markdown file in the archive, sorted so lessons keep their natural order. */
+export const listMarkdownPaths = (zip: JSZip): string[] => {
+    return Object.values(zip.files)
+        .filter(entry => !entry.dir && isMarkdownPath(entry.name))
+        .map(entry => entry.name)
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+export const loadMarkdownDocuments = async (zip: JSZip, paths: string[]): Promise<MarkdownDocument[]> => {
+    const documents: MarkdownDocument[] = [];
+    for (const path of paths) {
+        const entry = zip.files[path];
+        if (!entry || entry.dir) continue;
+        documents.push(readDocument(path, await entry.async('string')));
+    }
+    return documents;
+};
+
+/** Short slug used to keep exported filenames unique across documents. */
+export const documentSlug = (path: string): string => {
+    const cleaned = path.replace(/\.md$/i, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return cleaned || 'document';
+};
+
+/**
+ * Expands an exported filename pattern such as `{doc}-{line}-{slug}` (without extension).
+ * Unknown placeholders are left as written so typos are easy to spot in the export.
+ */
+export const formatImageFilename = (pattern: string, values: { doc: string; line: number; n: number; slug: string }): string => {
+    const expanded = pattern.replace(/\{(doc|line|n|slug)\}/g, (_m, key: keyof typeof values) => String(values[key]));
+    return expanded.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || values.slug;
+};
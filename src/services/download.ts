@@ -0,0 +1,9 @@
+/** Saves `text` as a JSON file through the browser's download prompt. */
+export const downloadJson = (filename: string, text: string): void => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,147 @@
+/** What went wrong with a model call; decides whether it is retried and what the user is told. */
+export type GenerationErrorKind = 'rate-limit' | 'transient' | 'timeout' | 'safety' | 'invalid-request' | 'invalid-response' | 'auth' | 'unknown';
+
+/** Why the model answered without an image: its stated reasons and whatever it said instead. */
+export interface Refusal {
+    // Prompt block reason or candidate finish reason, e.g. IMAGE_SAFETY
+    reason?: string;
+    // Safety categories rated as blocked or highly likely, e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+    categories: string[];
+    // Text parts of the answer, often the model's explanation
+    modelText?: string;
+}
+
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    // HTTP status of the failed call, when there was one
+    readonly status?: number;
+    // Wait the server asked for before trying again
+    readonly retryAfterMs?: number;
+    // Set when the call succeeded but the model declined or returned no image
+    readonly refusal?: Refusal;
+
+    constructor(kind: GenerationErrorKind, message: string, details: { status?: number; retryAfterMs?: number; refusal?: Refusal; cause?: unknown } = {}) {
+        super(message, { cause: details.cause });
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.status = details.status;
+        this.retryAfterMs = details.retryAfterMs;
+        this.refusal = details.refusal;
+    }
+}
+
+/** What the user can do about each kind of failure, shown under the error. */
+export const ERROR_GUIDANCE: Record<GenerationErrorKind, string> = {
+    'rate-limit': 'Gemini is limiting how fast requests can be made. Wait a minute, or lower “At once” in the queue controls, then try again.',
+    transient: 'Gemini had a temporary problem. Trying again in a moment usually works.',
+    timeout: 'Gemini took too long to answer. Try again; fewer proposals per reference are quicker.',
+    safety: 'Gemini declined this request under its safety rules. Reword the alt text or prompt, let “Rephrase and retry” reword it, or skip this image.',
+    'invalid-request': 'Gemini could not process this request. Check that the original image is a common format of reasonable size.',
+    'invalid-response': 'Gemini did not answer in the expected format. Try again; if it keeps happening, check that edited templates still ask for the JSON answer the originals describe.',
+    auth: 'The Gemini API key was rejected. Check GEMINI_API_KEY in .env.local and restart the app.',
+    unknown: '',
+};
+
+interface ApiErrorBody {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: { '@type'?: string; retryDelay?: string }[];
+}
+
+// The SDK puts the JSON error body in the message: {"error":{"code":429,"status":"RESOURCE_EXHAUSTED",...}}
+const parseErrorBody = (message: string): ApiErrorBody | null => {
+    const start = message.indexOf('{');
+    if (start < 0) return null;
+    try {
+        const parsed = JSON.parse(message.slice(start));
+        return parsed?.error && typeof parsed.error === 'object' ? parsed.error : null;
+    } catch {
+        return null;
+    }
+};
+
+// "23s", "1.5s" in RetryInfo, or "Please retry in 23.4s." in the message
+const parseRetryDelay = (body: ApiErrorBody | null, message: string): number | undefined => {
+    const hint = body?.details?.find(d => d.retryDelay)?.retryDelay || message.match(/retry in ([\d.]+)\s*s/i)?.[1];
+    const seconds = hint ? parseFloat(hint) : NaN;
+    return Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+};
+
+const kindFor = (status: number | undefined, code: string, message: string): GenerationErrorKind => {
+    if (status === 429 || code === 'RESOURCE_EXHAUSTED') return 'rate-limit';
+    if (status === 401 || status === 403 || code === 'UNAUTHENTICATED' || code === 'PERMISSION_DENIED' || /api[ _]key/i.test(message)) return 'auth';
+    if (/safety|prohibited_content|blocklist/i.test(message)) return 'safety';
+    if (status === 408 || code === 'DEADLINE_EXCEEDED') return 'timeout';
+    if ((status !== undefined && status >= 500) || code === 'UNAVAILABLE' || code === 'INTERNAL') return 'transient';
+    if (status !== undefined && status >= 400) return 'invalid-request';
+    // fetch rejects with a TypeError when the network is down or the connection drops
+    if (/failed to fetch|network|load failed|ECONNRESET|socket/i.test(message)) return 'transient';
+    return 'unknown';
+};
+
+/** Turns whatever a model call threw into a GenerationError with a readable message. */
+export const classifyError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationError) return error;
+    const raw = error instanceof Error ? error.message : typeof error === 'string' ? error : JSON.stringify(error);
+    const body = parseErrorBody(raw);
+    const statusValue = (error as { status?: unknown } | null)?.status;
+    const status = typeof statusValue === 'number' ? statusValue : body?.code;
+    const kind = kindFor(status, body?.status || '', body?.message || raw);
+    return new GenerationError(kind, body?.message || raw || 'The request failed.', {
+        status,
+        retryAfterMs: parseRetryDelay(body, raw),
+        cause: error,
+    });
+};
+
+// Finish and block reasons that mean the model declined on policy grounds
+const POLICY_REASON = /SAFETY|PROHIBITED|BLOCKLIST|SPII|RECITATION/;
+
+interface SafetyRating {
+    category?: string;
+    probability?: string;
+    blocked?: boolean;
+}
+
+interface ModelAnswer {
+    promptFeedback?: { blockReason?: string; safetyRatings?: SafetyRating[] };
+    candidates?: { finishReason?: string; safetyRatings?: SafetyRating[]; content?: { parts?: { text?: string; thought?: boolean }[] } }[];
+}
+
+/**
+ * Explains an answer that carries no image. Policy reasons and flagged categories make it a 'safety'
+ * failure; a plain text answer is 'unknown', with the text kept so the user can read it.
+ */
+export const refusalError = (response: ModelAnswer): GenerationError => {
+    const candidate = response.candidates?.[0];
+    const blockReason = response.promptFeedback?.blockReason;
+    const reason = blockReason || candidate?.finishReason;
+    const ratings = [...(response.promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+    const categories = [...new Set(ratings.filter(r => r.blocked || r.probability === 'HIGH').map(r => r.category || '').filter(Boolean))];
+    const modelText = (candidate?.content?.parts || []).filter(part => part.text && !part.thought).map(part => part.text!.trim()).join('\n').trim() || undefined;
+    const refusal: Refusal = { reason, categories, modelText };
+
+    if (blockReason) return new GenerationError('safety', `Gemini blocked the prompt (${blockReason}).`, { refusal });
+    if (POLICY_REASON.test(reason || '') || categories.length) {
+        return new GenerationError('safety', `Gemini declined to create the image${reason ? ` (${reason})` : ''}.`, { refusal });
+    }
+    const message = modelText
+        ? 'Gemini answered with text instead of an image.'
+        : `Gemini returned no image${reason && reason !== 'STOP' ? ` (${reason})` : ''}.`;
+    return new GenerationError('unknown', message, { refusal });
+};
+
+// HARM_CATEGORY_DANGEROUS_CONTENT → "dangerous content"
+export const formatSafetyCategory = (category: string): string =>
+    category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/** Kind of a failure for display; anything that is not a GenerationError is 'unknown'. */
+export const errorKind = (error: unknown): GenerationErrorKind => error instanceof GenerationError ? error.kind : 'unknown';
+
+/** Message followed by its guidance, for places that show a single line of text. */
+export const describeError = (error: unknown, fallback: string): string => {
+    const message = error instanceof Error ? error.message : fallback;
+    const guidance = ERROR_GUIDANCE[errorKind(error)];
+    return guidance ? `${message} ${guidance}` : message;
+};
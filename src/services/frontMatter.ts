@@ -0,0 +1,95 @@
+import { parse } from 'yaml';
+import { parseAspectRatio, parseImageFit, parseOutputSize, type AspectRatio, type ImageFit, type OutputSize } from './imageSize';
+import { parseProposalCount } from './directives';
+
+export interface FrontMatter {
+    data: Record<string, unknown>;
+    // Raw YAML between the fences, and the offset where the Markdown body starts
+    raw: string;
+    bodyStart: number;
+}
+
+const FRONT_MATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/** Reads the YAML front matter block at the top of a document, if any. Invalid YAML yields empty data. */
+export const readFrontMatter = (content: string): FrontMatter | null => {
+    const match = content.match(FRONT_MATTER_REGEX);
+    if (!match) return null;
+    let data: Record<string, unknown> = {};
+    try {
+        const parsed = parse(match[1]);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) data = parsed as Record<string, unknown>;
+    } catch (e) {
+        console.warn('Could not parse front matter:', e);
+    }
+    return { data, raw: match[1], bodyStart: match[0].length };
+};
+
+/** Document-wide settings from a `bananamd:` block in the front matter. */
+export interface BananaConfig {
+    styleGuide?: string;
+    // Negative constraints: what the images must not contain
+    avoid?: string;
+    aspectRatio?: AspectRatio;
+    // Output size of generated images, and whether they are cropped or padded to it
+    imageSize?: OutputSize;
+    imageFit?: ImageFit;
+    // Output folder for exported images, relative to the document
+    imageFolder?: string;
+    // Exported filename pattern using {doc}, {line}, {n} and {slug}
+    filenamePattern?: string;
+    altLanguage?: string;
+    maintainStyle?: boolean;
+    // Style reference image, relative to the document
+    styleImage?: string;
+    // Proposals per reference (1–6)
+    proposals?: number;
+}
+
+// Keys are matched ignoring case, '_' and '-', so `style_guide`, `style-guide` and `styleGuide` all work
+const CONFIG_KEYS: Record<string, keyof BananaConfig> = {
+    styleguide: 'styleGuide',
+    style: 'styleGuide',
+    avoid: 'avoid',
+    negative: 'avoid',
+    negativeprompt: 'avoid',
+    aspect: 'aspectRatio',
+    aspectratio: 'aspectRatio',
+    imagesize: 'imageSize',
+    size: 'imageSize',
+    resolution: 'imageSize',
+    imagewidth: 'imageSize',
+    imagefit: 'imageFit',
+    fit: 'imageFit',
+    imagefolder: 'imageFolder',
+    imagesfolder: 'imageFolder',
+    outputfolder: 'imageFolder',
+    filenamepattern: 'filenamePattern',
+    filename: 'filenamePattern',
+    altlanguage: 'altLanguage',
+    language: 'altLanguage',
+    maintainstyle: 'maintainStyle',
+    styleimage: 'styleImage',
+    proposals: 'proposals',
+    proposalcount: 'proposals',
+};
+
+export const readBananaConfig = (frontMatter: FrontMatter | null): BananaConfig | undefined => {
+    const block = frontMatter?.data.bananamd;
+    if (!block || typeof block !== 'object' || Array.isArray(block)) return undefined;
+    const config: BananaConfig = {};
+    for (const [rawKey, value] of Object.entries(block as Record<string, unknown>)) {
+        const key = CONFIG_KEYS[rawKey.toLowerCase().replace(/[-_]/g, '')];
+        if (!key) {
+            console.warn(`Unknown bananamd front matter setting "${rawKey}" ignored.`);
+            continue;
+        }
+        if (key === 'aspectRatio') config.aspectRatio = parseAspectRatio(value);
+        else if (key === 'imageSize') config.imageSize = parseOutputSize(value);
+        else if (key === 'imageFit') config.imageFit = parseImageFit(value);
+        else if (key === 'maintainStyle') config.maintainStyle = value === true || value === 'true';
+        else if (key === 'proposals') config.proposals = parseProposalCount(value);
+        else if (value !== null && value !== undefined && String(value).trim()) config[key] = String(value).trim();
+    }
+    return config;
+};
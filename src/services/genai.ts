@@ -1,7 +1,13 @@
-import { GoogleGenAI, type GenerateContentResponse, type Part, Modality } from "@google/genai";
+import { GoogleGenAI, type GenerateContentResponse, type Part, type Schema, Modality } from "@google/genai";
+import type { GenerationProvider } from './provider';
+import { fitImage, formatOutputSize, type ImageFit, type OutputSize } from './imageSize';
+import { classifyError, GenerationError, refusalError, type GenerationErrorKind } from './errors';
 
 export type GenAIRequest = Parameters<GoogleGenAI['models']['generateContent']>[0];
 
+export const TEXT_MODEL = 'gemini-2.5-flash';
+export const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
 export const fileToGenerativePart = async (file: File): Promise<Part> => {
     const base64EncodedData = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
@@ -17,59 +23,172 @@ export const fileToGenerativePart = async (file: File): Promise<Part> => {
     };
 };
 
+const isAbortError = (error: unknown): boolean => (error as { name?: string } | null)?.name === 'AbortError';
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryPolicy {
+    // Retries allowed for each kind of failure; other kinds fail on the first error
+    retries: Partial<Record<GenerationErrorKind, number>>;
+    // Backoff when the server gives no retry delay: doubles from the initial delay up to the maximum
+    initialDelayMs: number;
+    maxDelayMs: number;
+    // Each attempt is abandoned after this long (0 waits indefinitely)
+    timeoutMs: number;
+    // No retry is started that would end after this long since the first attempt
+    budgetMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: { 'rate-limit': 5, transient: 3, timeout: 1 },
+    initialDelayMs: 1000,
+    maxDelayMs: 30_000,
+    timeoutMs: 120_000,
+    budgetMs: 300_000,
+};
+
+// The caller's signal combined with a timeout for one attempt
+const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number) => {
+    const timeout = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined;
+    return { timeout, attemptSignal: signal && timeout ? AbortSignal.any([signal, timeout]) : signal || timeout };
+};
+
+/**
+ * Calls generateContent, retrying failures the policy allows and honouring the server's retry delay.
+ * Failures reject with a GenerationError; cancelling through `request.config.abortSignal` rejects with
+ * the signal's reason.
+ */
 export const generateContentWithRetry = async (
     ai: GoogleGenAI,
     request: GenAIRequest,
-    retries = 5,
-    initialDelay = 1000
+    retryPolicy: Partial<RetryPolicy> = {}
 ): Promise<GenerateContentResponse> => {
-    let lastError: any = null;
-    for (let i = 0; i < retries; i++) {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    const signal = request.config?.abortSignal;
+    const startedAt = Date.now();
+    const retriesUsed: Partial<Record<GenerationErrorKind, number>> = {};
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        const { timeout, attemptSignal } = withTimeout(signal, policy.timeoutMs);
         try {
-            const response = await ai.models.generateContent(request);
+            const response = await ai.models.generateContent({ ...request, config: { ...request.config, abortSignal: attemptSignal } });
+            if (response.promptFeedback?.blockReason) throw refusalError(response);
             return response;
         } catch (error) {
-            lastError = error;
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            
-            if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-                console.warn(`Gemini API call attempt ${i + 1} of ${retries} failed with rate limit error. Retrying...`);
-                if (i < retries - 1) {
-                    const jitter = Math.random() * 500;
-                    const delay = initialDelay * Math.pow(2, i) + jitter;
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                }
-            } else {
-                console.error(`Gemini API call failed with non-retryable error:`, error);
-                throw error;
+            // A cancelled call surfaces as the signal's reason, never as a failure to retry
+            if (signal?.aborted) throw signal.reason;
+            const failure = timeout?.aborted
+                ? new GenerationError('timeout', `Gemini did not answer within ${Math.round(policy.timeoutMs / 1000)} seconds.`, { cause: error })
+                : isAbortError(error) ? null : classifyError(error);
+            if (!failure) throw error;
+
+            const used = retriesUsed[failure.kind] || 0;
+            const wait = failure.retryAfterMs ?? Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** used) + Math.random() * 500;
+            if (used >= (policy.retries[failure.kind] || 0) || Date.now() - startedAt + wait > policy.budgetMs) {
+                console.error(`Gemini API call failed after ${attempt} attempt(s) (${failure.kind}):`, error);
+                throw failure;
             }
+            retriesUsed[failure.kind] = used + 1;
+            console.warn(`Gemini API call attempt ${attempt} failed (${failure.kind}). Retrying in ${Math.round(wait / 1000)}s...`);
+            await delay(wait, signal);
         }
     }
-    console.error('All retry attempts failed.');
-    throw lastError || new Error('Failed to generate content after all retries.');
 };
 
-export const generateImageFromPrompt = async (ai: GoogleGenAI, prompt: string, styleImagePart?: Part): Promise<string> => {
+export interface RequestOptions {
+    // Cancels the call; it then rejects with an AbortError
+    signal?: AbortSignal;
+    // Overrides the provider's retry budgets and timeout for this call
+    retry?: Partial<RetryPolicy>;
+    // Ask the model again instead of answering from the response cache
+    bypassCache?: boolean;
+    // Version of the prompt templates the request was built from, part of the cache key
+    templateVersion?: string;
+    // Text calls only: answer with JSON matching this schema
+    responseSchema?: Schema;
+    // Answers this rejects are returned but not cached
+    accept?: (answer: string) => boolean;
+}
+
+/** A recurring subject the image must show exactly as in its reference images. */
+export interface SubjectReference {
+    name: string;
+    description: string;
+    images: Part[];
+}
+
+export interface ImageGenerationOptions extends RequestOptions {
+    // Target aspect ratio such as '16:9' (e.g. from a slide deck's declared size)
+    aspectRatio?: string;
+    // Output size in pixels; the returned image is cropped or padded (`fit`) to match it and the aspect ratio
+    size?: OutputSize;
+    fit?: ImageFit;
+    // Written style guide and negative constraints, formatted by formatStyleGuide
+    styleGuide?: string;
+    // Additional instructions appended to the prompt (e.g. from per-image directives)
+    extraPrompt?: string;
+    // Recurring subjects mentioned in the context; their reference images follow all other images
+    subjects?: SubjectReference[];
+    // Edits only: white-on-black PNG data URL of the region the edit may change
+    mask?: string;
+}
+
+const withImageOptions = (text: string, options: ImageGenerationOptions): string => {
+    let result = text;
+    if (options.styleGuide) result += `\n\n${options.styleGuide}`;
+    if (options.extraPrompt) result += `\n\n${options.extraPrompt}`;
+    if (options.aspectRatio) result += `\n\nCompose the image for a ${options.aspectRatio} aspect ratio frame.`;
+    if (options.size) result += `\n\nThe image will be shown at ${formatOutputSize(options.size)}; keep important details away from the edges.`;
+    if (options.subjects?.length) result += `\n\nRecurring subjects: the last attached images are labelled references for ${options.subjects.map(s => `"${s.name}"`).join(', ')}. Wherever one of them appears, draw it exactly as in its references (shape, proportions, colours, markings), in this image's style; do not copy their backgrounds or poses.`;
+    return result;
+};
+
+// Each subject's label and description followed by its reference images
+const subjectParts = (options: ImageGenerationOptions): Part[] => (options.subjects || []).flatMap(subject => [
+    { text: `Reference for "${subject.name}"${subject.description ? `: ${subject.description}` : ''}` },
+    ...subject.images,
+]);
+
+// Style references are named in the singular or plural in prompts, to match what is attached
+const referenceImages = (count: number): string => count > 1 ? `the ${count} attached reference images` : 'the attached reference image';
+
+const restyleInstruction = (instruction: string, count: number): string =>
+    `${instruction}\n\nRedraw the current image from scratch in the artistic style of ${referenceImages(count)}. Preserve the existing scene layout and core subjects, but restyle ALL forms, edges and surfaces to match the ${count > 1 ? "references' shared" : "reference's"} technique (palette, brush/line quality, texture, lighting). Do NOT copy or insert any objects or layout from the ${count > 1 ? 'references' : 'reference'}.`;
+
+export const generateImageFromPrompt = async (ai: GoogleGenAI, prompt: string, styleImageParts: Part[] = [], options: ImageGenerationOptions = {}): Promise<string> => {
     // Always request image modality and provide a structured content payload
-    const styledPrompt = styleImagePart
-        ? `${prompt}\n\nTransform the described scene into the artistic style of the attached reference image. Preserve the described composition, but render all elements with the reference image's stylistic characteristics (palette, brushwork, line quality, textures).`
-        : prompt;
-    const parts: Part[] = styleImagePart ? [{ text: styledPrompt }, styleImagePart] : [{ text: styledPrompt }];
+    const styledPrompt = withImageOptions(styleImageParts.length
+        ? `${prompt}\n\nTransform the described scene into the artistic style of ${referenceImages(styleImageParts.length)}. Preserve the described composition, but render all elements with the ${styleImageParts.length > 1 ? "reference images' shared" : "reference image's"} stylistic characteristics (palette, brushwork, line quality, textures).`
+        : prompt, options);
+    const parts: Part[] = [{ text: styledPrompt }, ...styleImageParts, ...subjectParts(options)];
     const request: GenAIRequest = {
-        model: "gemini-2.5-flash-image-preview",
+        model: IMAGE_MODEL,
         contents: { parts },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: options.signal,
         },
     };
 
-    const response = await generateContentWithRetry(ai, request);
+    const response = await generateContentWithRetry(ai, request, options.retry);
     const img = extractImageFromCandidates((response as any).candidates || []);
-    if (img) return img;
-    throw new Error("API did not return an image. It may have refused the prompt.");
+    if (img) return fitImage(img, options);
+    throw refusalError(response);
 };
 
-export const generateImageVariation = async (ai: GoogleGenAI, base64ImageWithMime: string, altText: string, styleImagePart?: Part): Promise<string> => {
+export const generateImageVariation = async (ai: GoogleGenAI, base64ImageWithMime: string, altText: string, styleImageParts: Part[] = [], options: ImageGenerationOptions = {}): Promise<string> => {
     const mimeType = base64ImageWithMime.substring(base64ImageWithMime.indexOf(":") + 1, base64ImageWithMime.indexOf(";"));
     const data = base64ImageWithMime.split(',')[1];
 
@@ -81,32 +200,31 @@ export const generateImageVariation = async (ai: GoogleGenAI, base64ImageWithMim
     };
     
     let textPrompt: string;
-    if (styleImagePart) {
+    if (styleImageParts.length > 1) {
+        textPrompt = `You will receive ${styleImageParts.length + 1} images: the first is the BASE content to restyle, the others are STYLE REFERENCES only, sharing one style.\n\nTask: Redraw the BASE image entirely in the artistic style of the STYLE REFERENCES. Preserve the BASE scene layout and core subjects (positions and proportions), but restyle ALL forms, edges and surfaces to match the references' technique: palette, brush/line quality, material texture and lighting mood. Do NOT copy, merge or insert any objects, backgrounds or layout from the STYLE REFERENCES; use them only as a style guide. Output must look fully repainted in that style while keeping the same composition and subject identity.${altText ? `\nContext about subject: "${altText}".` : ''}`;
+    } else if (styleImageParts.length) {
         textPrompt = `You will receive two images: the first is the BASE content to restyle, the second is a STYLE REFERENCE only.\n\nTask: Redraw the BASE image entirely in the artistic style of the STYLE REFERENCE. Preserve the BASE scene layout and core subjects (positions and proportions), but restyle ALL forms, edges and surfaces to match the reference's technique: palette, brush/line quality, material texture and lighting mood. Do NOT copy, merge or insert any objects, backgrounds or layout from the STYLE REFERENCE; use it only as a style guide. Output must look fully repainted in that style while keeping the same composition and subject identity.${altText ? `\nContext about subject: "${altText}".` : ''}`;
     } else {
         textPrompt = `Improve this image: enhance clarity, lighting, dynamic range, and detail; preserve composition and subject.${altText ? ` Context: "${altText}".` : ''}`;
     }
+    textPrompt = withImageOptions(textPrompt, options);
 
     // dev logging removed
     const response = await generateContentWithRetry(ai, {
-        model: 'gemini-2.5-flash-image-preview',
+        model: IMAGE_MODEL,
         contents: {
             // Put instruction first, then base, then style for clarity
-            parts: styleImagePart ? [{ text: textPrompt }, imagePart, styleImagePart] : [{ text: textPrompt }, imagePart],
+            parts: [{ text: textPrompt }, imagePart, ...styleImageParts, ...subjectParts(options)],
         },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: options.signal,
         },
-    });
+    }, options.retry);
 
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-            const imageData = part.inlineData.data;
-            const responseMimeType = part.inlineData.mimeType || 'image/png';
-            return `data:${responseMimeType};base64,${imageData}`;
-        }
-    }
-    throw new Error("API did not return an image variation.");
+    const img = extractImageFromCandidates((response as any).candidates || []);
+    if (img) return fitImage(img, options);
+    throw refusalError(response);
 };
 
 // --- Iterative Editing (Chat) Helpers ---
@@ -114,7 +232,7 @@ export const generateImageVariation = async (ai: GoogleGenAI, base64ImageWithMim
 // Simple in-memory chat session store keyed by a branch/node id.
 const chatSessions: Map<string, { chat: any; seededWithImageId?: string }> = new Map();
 
-const dataUrlToPart = (base64ImageWithMime: string): Part => {
+export const dataUrlToPart = (base64ImageWithMime: string): Part => {
     const mimeType = base64ImageWithMime.substring(base64ImageWithMime.indexOf(":") + 1, base64ImageWithMime.indexOf(";"));
     const data = base64ImageWithMime.split(',')[1];
     return {
@@ -160,11 +278,41 @@ export const ensureChatForBranch = async (
     }
 
     // Create a new chat seeded with the base image on first message.
-    const chat = (ai as any).chats.create({ model: 'gemini-2.5-flash-image-preview' });
+    const chat = (ai as any).chats.create({ model: IMAGE_MODEL });
     chatSessions.set(branchKey, { chat });
     return { mode: 'chat', chat, baseImagePart };
 };
 
+/**
+ * One-shot edit limited to a region: the mask travels right after the image it applies to. The caller
+ * composites the result so pixels outside the mask stay untouched; the prompt keeps the model from
+ * redrawing them anyway, which would leave seams.
+ */
+const generateMaskedEdit = async (
+    ai: GoogleGenAI,
+    currentImageDataUrl: string,
+    instruction: string,
+    mask: string,
+    styleImageParts: Part[],
+    options: ImageGenerationOptions
+): Promise<string> => {
+    const styleHint = styleImageParts.length ? ` Render the changed area in the style of ${referenceImages(styleImageParts.length)}, which follow the mask.` : '';
+    const text = `${instruction}\n\nThe first image is the image to edit and the second is a mask of the same size. Apply the edit ONLY inside the white area of the mask and blend it naturally into its surroundings. Everything in the black area must stay exactly as it is: same composition, framing, colours and details.${styleHint}`;
+    const response = await generateContentWithRetry(ai, {
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [{ text }, dataUrlToPart(currentImageDataUrl), dataUrlToPart(mask), ...styleImageParts, ...subjectParts(options)],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: options.signal,
+        },
+    }, options.retry);
+    const img = extractImageFromCandidates((response as any).candidates || []);
+    if (!img) throw refusalError(response);
+    return fitImage(img, options);
+};
+
 /**
  * Sends an edit instruction using chat mode if available; otherwise uses unary generateContent.
  * Returns base64 data URL of the new image.
@@ -174,8 +322,12 @@ export const generateEditedImage = async (
     branchKey: string,
     currentImageDataUrl: string,
     instruction: string,
-    styleImagePart?: Part
+    styleImageParts: Part[] = [],
+    options: ImageGenerationOptions = {}
 ): Promise<string> => {
+    // Edits keep the reference's shape: the frame is restated in the instruction and enforced on the result
+    instruction = withImageOptions(instruction, options);
+    if (options.mask) return generateMaskedEdit(ai, currentImageDataUrl, instruction, options.mask, styleImageParts, options);
     const { mode, chat, baseImagePart } = await ensureChatForBranch(ai, branchKey, currentImageDataUrl);
 
     // Ensure the very first edit is ALWAYS anchored to the current image.
@@ -185,31 +337,34 @@ export const generateEditedImage = async (
     if (isFirstTurn) {
         // dev logging removed
         const response = await generateContentWithRetry(ai, {
-            model: 'gemini-2.5-flash-image-preview',
+            model: IMAGE_MODEL,
             contents: {
                 // Instruction first for clarity, then base, then style
-                parts: styleImagePart
+                parts: styleImageParts.length
                     ? [
-                        { text: `${instruction}\n\nRedraw the current image from scratch in the artistic style of the attached reference image. Preserve the existing scene layout and core subjects, but restyle ALL forms, edges and surfaces to match the reference's technique (palette, brush/line quality, texture, lighting). Do NOT copy or insert any objects or layout from the reference.` },
+                        { text: restyleInstruction(instruction, styleImageParts.length) },
                         dataUrlToPart(currentImageDataUrl),
-                        styleImagePart
+                        ...styleImageParts,
+                        ...subjectParts(options)
                       ]
                     : [
                         { text: instruction },
-                        dataUrlToPart(currentImageDataUrl)
+                        dataUrlToPart(currentImageDataUrl),
+                        ...subjectParts(options)
                       ],
             },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: options.signal,
             },
-        });
+        }, options.retry);
         const firstImg = extractImageFromCandidates((response as any).candidates || []);
         if (firstImg) {
             // Mark this branch as seeded so subsequent turns can use chat (or continue unary).
             const existing = chatSessions.get(branchKey) || { chat } as any;
             existing.seededWithImageId = branchKey;
             chatSessions.set(branchKey, existing);
-            return firstImg;
+            return fitImage(firstImg, options);
         }
         // If for any reason the unary path fails to return an image, fall through to other paths.
     }
@@ -220,42 +375,83 @@ export const generateEditedImage = async (
             .sendMessage({
                 message: instruction,
                 // Instruction first for clarity
-                parts: styleImagePart
+                parts: styleImageParts.length
                     ? [
-                        { text: `${instruction}\n\nRedraw the current image from scratch in the artistic style of the attached reference image. Preserve the existing scene layout and core subjects, but restyle ALL forms, edges and surfaces to match the reference's technique (palette, brush/line quality, texture, lighting). Do NOT copy or insert any objects or layout from the reference.` },
+                        { text: restyleInstruction(instruction, styleImageParts.length) },
                         baseImagePart,
-                        styleImagePart
+                        ...styleImageParts,
+                        ...subjectParts(options)
                       ]
                     : [
                         { text: instruction },
-                        baseImagePart
-                      ]
+                        baseImagePart,
+                        ...subjectParts(options)
+                      ],
+                config: { abortSignal: withTimeout(options.signal, options.retry?.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs).attemptSignal },
             })
             .catch(() => null as any);
+        options.signal?.throwIfAborted();
         if (response?.candidates) {
             const img = extractImageFromCandidates(response.candidates as any[]);
-            if (img) return img;
+            if (img) return fitImage(img, options);
         }
         // If chat path failed to return an image, fall back to unary below.
     }
 
     // Unary fallback: send current image + instruction in a single turn.
     const response = await generateContentWithRetry(ai, {
-        model: 'gemini-2.5-flash-image-preview',
+        model: IMAGE_MODEL,
         contents: {
-            parts: styleImagePart
+            parts: styleImageParts.length
                 ? [
                     dataUrlToPart(currentImageDataUrl),
-                    styleImagePart,
-                    { text: `${instruction}\n\nRedraw the current image from scratch in the artistic style of the attached reference image. Preserve the existing scene layout and core subjects, but restyle ALL forms, edges and surfaces to match the reference's technique (palette, brush/line quality, texture, lighting). Do NOT copy or insert any objects or layout from the reference.` }
+                    ...styleImageParts,
+                    { text: restyleInstruction(instruction, styleImageParts.length) },
+                    ...subjectParts(options)
                   ]
-                : [dataUrlToPart(currentImageDataUrl), { text: instruction }],
+                : [dataUrlToPart(currentImageDataUrl), { text: instruction }, ...subjectParts(options)],
         },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: options.signal,
         },
-    });
+    }, options.retry);
     const img = extractImageFromCandidates((response as any).candidates || []);
-    if (!img) throw new Error('Edit did not return an image.');
-    return img;
+    if (!img) throw refusalError(response);
+    return fitImage(img, options);
+};
+
+const responseText = async (response: GenerateContentResponse): Promise<string> => {
+    const text = (response as any).text;
+    return typeof text === 'function' ? await text() : String(text || '');
+};
+
+/** Provider backed by the Gemini API: text on Gemini 2.5 Flash, images on 2.5 Flash Image Preview. */
+export const createGeminiProvider = (apiKey: string, retryPolicy: Partial<RetryPolicy> = {}): GenerationProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    // Text answers are short, so they give up sooner than image calls
+    const textRetry = (options: RequestOptions) => ({ timeoutMs: 60_000, ...retryPolicy, ...options.retry });
+    const withRetry = <T extends RequestOptions>(options: T = {} as T): T => ({ ...options, retry: { ...retryPolicy, ...options.retry } });
+    const textConfig = (options: RequestOptions) => ({
+        abortSignal: options.signal,
+        ...(options.responseSchema && { responseMimeType: 'application/json', responseSchema: options.responseSchema }),
+    });
+    return {
+        name: 'gemini',
+        textModel: TEXT_MODEL,
+        imageModel: IMAGE_MODEL,
+        completeText: async (prompt, options = {}) => responseText(await generateContentWithRetry(ai, {
+            model: TEXT_MODEL,
+            contents: prompt,
+            config: textConfig(options),
+        }, textRetry(options))),
+        describeImage: async (imageDataUrl, prompt, options = {}) => responseText(await generateContentWithRetry(ai, {
+            model: TEXT_MODEL,
+            contents: { parts: [dataUrlToPart(imageDataUrl), { text: prompt }] },
+            config: textConfig(options),
+        }, textRetry(options))),
+        generateImage: (prompt, styleImages, options) => generateImageFromPrompt(ai, prompt, styleImages, withRetry(options)),
+        generateVariation: (imageDataUrl, altText, styleImages, options) => generateImageVariation(ai, imageDataUrl, altText, styleImages, withRetry(options)),
+        editImage: (branchKey, imageDataUrl, instruction, styleImages, options) => generateEditedImage(ai, branchKey, imageDataUrl, instruction, styleImages, withRetry(options)),
+    };
 };
@@ -0,0 +1,124 @@
+// Image format layer: recognises originals by their bytes and turns formats the image model
+// does not accept into PNG before they are sent.
+
+// Input formats Gemini accepts for images
+const MODEL_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+const EXTENSION_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    avif: 'image/avif',
+    bmp: 'image/bmp',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+    heic: 'image/heic',
+    heif: 'image/heif',
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+/** Detects the image type from the first bytes of a file, or null when it is not a known image. */
+export const detectImageMime = (bytes: Uint8Array): string | null => {
+    if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'image/png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+    if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+    if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+    if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'image/tiff';
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        const brand = ascii(bytes, 8, 4);
+        if (brand === 'avif' || brand === 'avis') return 'image/avif';
+        if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'].includes(brand)) return 'image/heic';
+        if (brand === 'mif1' || brand === 'msf1') return 'image/heif';
+    }
+    // SVG is text: skip a BOM, XML declaration, comments and doctype before the root element
+    const head = new TextDecoder().decode(bytes.subarray(0, 1024)).replace(/^\uFEFF/, '');
+    const root = head.replace(/^\s*(?:<\?xml[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*/i, '');
+    if (/^<svg[\s>]/i.test(root)) return 'image/svg+xml';
+    return null;
+};
+
+export const mimeFromExtension = (path: string): string | null =>
+    EXTENSION_TYPES[path.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || ''] || null;
+
+const base64Head = (base64: string): Uint8Array => {
+    // 1368 base64 characters decode to the first 1026 bytes, enough for every signature above
+    const binary = atob(base64.slice(0, 1368));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+/**
+ * Builds a data URL labelled with the detected type, falling back to the type implied by the file
+ * extension. Returns null when neither gives an image type.
+ */
+export const toImageDataUrl = (base64: string, fallbackMime?: string | null): string | null => {
+    let mimeType: string | null = null;
+    try {
+        mimeType = detectImageMime(base64Head(base64));
+    } catch {
+        // Not valid base64; fall through to the fallback
+    }
+    mimeType = mimeType || fallbackMime || null;
+    return mimeType ? `data:${mimeType};base64,${base64}` : null;
+};
+
+/** Re-encodes a data URL written inline in Markdown (often `data:image/svg+xml;utf8,<svg…>`) as base64. */
+export const toBase64DataUrl = (dataUrl: string): string | null => {
+    const match = dataUrl.match(/^data:([^;,]+)((?:;[^;,]+)*),([\s\S]*)$/);
+    if (!match) return null;
+    if (/;base64$/i.test(match[2])) return toImageDataUrl(match[3], match[1]);
+    try {
+        const bytes = new TextEncoder().encode(decodeURIComponent(match[3]));
+        return toImageDataUrl(btoa(String.fromCharCode(...bytes)), match[1]);
+    } catch {
+        return null;
+    }
+};
+
+export const readAsDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+export const dataUrlMime = (dataUrl: string): string =>
+    dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
+
+export const isModelImageType = (mimeType: string): boolean => MODEL_IMAGE_TYPES.includes(mimeType);
+
+export const isVectorImageType = (mimeType: string): boolean => mimeType === 'image/svg+xml';
+
+/**
+ * Renders an image the browser can decode (SVG, AVIF, BMP, GIF…) to a PNG data URL, scaling it to
+ * fit `maxSize`. SVGs without intrinsic size are drawn at `maxSize / 2` square. Rejects when the
+ * browser cannot decode the format (e.g. TIFF or HEIC outside Safari).
+ */
+export const rasterizeImage = (dataUrl: string, maxSize = 2048): Promise<string> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+        const width = img.naturalWidth || maxSize / 2;
+        const height = img.naturalHeight || maxSize / 2;
+        const scale = Math.min(1, maxSize / Math.max(width, height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error('Canvas is not available.'));
+            return;
+        }
+        // Transparent vector art would otherwise turn black in some model pipelines
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error(`This browser cannot decode ${dataUrlMime(dataUrl)} images.`));
+    img.src = dataUrl;
+});
@@ -0,0 +1,121 @@
+// Aspect ratios the image model understands, as 'W:H' strings.
+export const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'] as const;
+
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+const ratioValue = (ratio: string): number => {
+    const [w, h] = ratio.split(':').map(Number);
+    return w / h;
+};
+
+/** Closest supported aspect ratio for a width/height pair (compared on a log scale, so 2:1 and 1:2 are symmetric). */
+export const closestAspectRatio = (width: number, height: number): AspectRatio | undefined => {
+    if (!(width > 0) || !(height > 0)) return undefined;
+    const target = Math.log(width / height);
+    let best: AspectRatio = ASPECT_RATIOS[0];
+    for (const ratio of ASPECT_RATIOS) {
+        if (Math.abs(Math.log(ratioValue(ratio)) - target) < Math.abs(Math.log(ratioValue(best)) - target)) best = ratio;
+    }
+    return best;
+};
+
+/** Parses '16:9', '16/9', '16x9' or a number like 1.777 into the closest supported aspect ratio. */
+export const parseAspectRatio = (value: unknown): AspectRatio | undefined => {
+    if (typeof value === 'number') return closestAspectRatio(value, 1);
+    if (typeof value !== 'string') return undefined;
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)$/i);
+    if (match) return closestAspectRatio(Number(match[1]), Number(match[2]));
+    const numeric = Number(value);
+    return Number.isFinite(numeric) ? closestAspectRatio(numeric, 1) : undefined;
+};
+
+export type ImageFit = 'crop' | 'pad';
+
+/** Requested output size in pixels; without a height, it follows from the aspect ratio. */
+export interface OutputSize {
+    width: number;
+    height?: number;
+}
+
+const MAX_DIMENSION = 4096;
+
+const pixels = (value: string): number | undefined => {
+    const n = Math.round(Number(value));
+    return Number.isFinite(n) && n > 0 ? Math.min(MAX_DIMENSION, n) : undefined;
+};
+
+/** Parses '1280x720', '1280×720' or a width such as '1280' or 1280. */
+export const parseOutputSize = (value: unknown): OutputSize | undefined => {
+    if (typeof value === 'number') value = String(value);
+    if (typeof value !== 'string') return undefined;
+    const match = value.trim().match(/^(\d+)\s*(?:px)?\s*(?:[x×*]\s*(\d+)\s*(?:px)?)?$/i);
+    const width = match && pixels(match[1]);
+    if (!width) return undefined;
+    const height = match[2] ? pixels(match[2]) : undefined;
+    return height ? { width, height } : { width };
+};
+
+export const parseImageFit = (value: unknown): ImageFit | undefined => {
+    const fit = String(value ?? '').trim().toLowerCase();
+    if (fit === 'crop' || fit === 'cover') return 'crop';
+    if (fit === 'pad' || fit === 'contain' || fit === 'letterbox') return 'pad';
+    return undefined;
+};
+
+export const formatOutputSize = (size: OutputSize): string => size.height ? `${size.width}×${size.height}` : `${size.width}px wide`;
+
+/**
+ * Pixel size a `sourceWidth`×`sourceHeight` image should end up at. An explicit width and height win;
+ * otherwise the aspect ratio (or the source's own) shapes it, cropping into or padding around the
+ * source when no width is given. Null when nothing was requested.
+ */
+export const targetDimensions = (sourceWidth: number, sourceHeight: number, aspectRatio?: string, size?: OutputSize, fit: ImageFit = 'crop'): { width: number; height: number } | null => {
+    if (size?.height) return { width: size.width, height: size.height };
+    const ratio = aspectRatio ? ratioValue(aspectRatio) : sourceWidth / sourceHeight;
+    if (!Number.isFinite(ratio) || ratio <= 0) return null;
+    if (size) return { width: size.width, height: Math.max(1, Math.round(size.width / ratio)) };
+    if (!aspectRatio) return null;
+    const wider = sourceWidth / sourceHeight > ratio;
+    // Crop keeps the source's short side, pad its long side
+    return wider === (fit === 'crop')
+        ? { width: Math.round(sourceHeight * ratio), height: sourceHeight }
+        : { width: sourceWidth, height: Math.round(sourceWidth / ratio) };
+};
+
+/**
+ * Crops or pads (with white) and scales an image to the requested shape, returning a PNG data URL.
+ * Images that already match are returned unchanged.
+ */
+export const fitImage = (dataUrl: string, options: { aspectRatio?: string; size?: OutputSize; fit?: ImageFit }): Promise<string> => {
+    if (!options.aspectRatio && !options.size) return Promise.resolve(dataUrl);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const target = targetDimensions(img.naturalWidth, img.naturalHeight, options.aspectRatio, options.size, options.fit);
+            if (!target || (target.width === img.naturalWidth && target.height === img.naturalHeight)) {
+                resolve(dataUrl);
+                return;
+            }
+            const canvas = document.createElement('canvas');
+            canvas.width = target.width;
+            canvas.height = target.height;
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error('Canvas is not available.'));
+                return;
+            }
+            const scaleX = target.width / img.naturalWidth;
+            const scaleY = target.height / img.naturalHeight;
+            const scale = options.fit === 'pad' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+            const width = img.naturalWidth * scale;
+            const height = img.naturalHeight * scale;
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, target.width, target.height);
+            context.imageSmoothingQuality = 'high';
+            context.drawImage(img, (target.width - width) / 2, (target.height - height) / 2, width, height);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        img.onerror = () => reject(new Error('The generated image could not be resized.'));
+        img.src = dataUrl;
+    });
+};
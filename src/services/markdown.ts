@@ -0,0 +1,200 @@
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import type { Definition, Nodes, Root } from 'mdast';
+
+export type ImageSyntax = 'markdown' | 'html' | 'reference' | 'wiki';
+
+export interface SourceRange {
+    startIndex: number;
+    matchLength: number;
+}
+
+export interface FoundImage extends SourceRange {
+    syntax: ImageSyntax;
+    alt: string;
+    path: string;
+    title?: string;
+    lineNumber: number;
+    // Reference-style images (`![alt][id]`) also point at their `[id]: path "title"` definition
+    referenceLabel?: string;
+    definition?: SourceRange & { identifier: string };
+    // Obsidian embeds (`![[image.png|300]]`) keep their size modifier, e.g. '300' or '300x200'
+    wikiSize?: string;
+}
+
+const lineNumberAt = (content: string, offset: number): number => (content.substring(0, offset).match(/\n/g) || []).length + 1;
+
+const readAttribute = (attrs: string, name: string): string | null => {
+    const match = attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? (match[1] ?? match[2] ?? match[3] ?? '') : null;
+};
+
+/** Blanks out HTML comments while keeping offsets intact, so `<img>` inside `<!-- -->` is ignored. */
+const maskHtmlComments = (html: string): string => html.replace(/<!--[\s\S]*?(?:-->|$)/g, m => ' '.repeat(m.length));
+
+const findHtmlImages = (content: string, start: number, end: number): FoundImage[] => {
+    const source = maskHtmlComments(content.slice(start, end));
+    const found: FoundImage[] = [];
+    const htmlImgRegex = /<img\b([^>]*)>/gi;
+    let match;
+    while ((match = htmlImgRegex.exec(source)) !== null) {
+        const attrs = match[1] || '';
+        const path = readAttribute(attrs, 'src');
+        if (!path) continue;
+        const startIndex = start + match.index;
+        found.push({
+            syntax: 'html',
+            alt: readAttribute(attrs, 'alt') || '',
+            path,
+            title: readAttribute(attrs, 'title') ?? undefined,
+            lineNumber: lineNumberAt(content, startIndex),
+            startIndex,
+            matchLength: match[0].length,
+        });
+    }
+    return found;
+};
+
+const WIKI_IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|avif|bmp|tiff?|heic|heif)$/i;
+
+/** Finds Obsidian-style `![[target#heading|alias-or-size]]` embeds that point at image files. */
+const findWikiEmbeds = (content: string, start: number, end: number): FoundImage[] => {
+    const source = content.slice(start, end);
+    const found: FoundImage[] = [];
+    const wikiRegex = /!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+    let match;
+    while ((match = wikiRegex.exec(source)) !== null) {
+        const path = match[1].trim();
+        if (!WIKI_IMAGE_EXTENSIONS.test(path)) continue;
+        const modifier = (match[2] || '').trim();
+        const startIndex = start + match.index;
+        const isSize = /^\d+(x\d+)?$/.test(modifier);
+        found.push({
+            syntax: 'wiki',
+            alt: isSize ? '' : modifier,
+            path,
+            wikiSize: isSize ? modifier : undefined,
+            lineNumber: lineNumberAt(content, startIndex),
+            startIndex,
+            matchLength: match[0].length,
+        });
+    }
+    return found;
+};
+
+const offsetsOf = (node: Nodes): SourceRange | null => {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) return null;
+    return { startIndex: start, matchLength: end - start };
+};
+
+export const parseMarkdown = (content: string): Root => fromMarkdown(content);
+
+/**
+ * Finds every image in a Markdown document using its syntax tree, so images inside code blocks,
+ * inline code and HTML comments are skipped. Offsets point at the exact source text of each match.
+ */
+export const findImageReferences = (content: string): FoundImage[] => {
+    const tree = parseMarkdown(content);
+    const definitions = new Map<string, Definition>();
+    const found: FoundImage[] = [];
+
+    const collectDefinitions = (node: Nodes) => {
+        if (node.type === 'definition' && !definitions.has(node.identifier)) definitions.set(node.identifier, node);
+        if ('children' in node) node.children.forEach(collectDefinitions);
+    };
+    collectDefinitions(tree);
+
+    const visit = (node: Nodes) => {
+        const range = offsetsOf(node);
+        if (node.type === 'image' && range) {
+            found.push({
+                syntax: 'markdown',
+                alt: node.alt || '',
+                path: node.url,
+                title: node.title ?? undefined,
+                lineNumber: node.position!.start.line,
+                ...range,
+            });
+        } else if (node.type === 'imageReference' && range) {
+            const definition = definitions.get(node.identifier);
+            const definitionRange = definition ? offsetsOf(definition) : null;
+            if (definition && definitionRange) {
+                found.push({
+                    syntax: 'reference',
+                    alt: node.alt || '',
+                    path: definition.url,
+                    title: definition.title ?? undefined,
+                    lineNumber: node.position!.start.line,
+                    referenceLabel: node.label || node.identifier,
+                    definition: { identifier: node.identifier, ...definitionRange },
+                    ...range,
+                });
+            }
+        } else if (node.type === 'html' && range) {
+            found.push(...findHtmlImages(content, range.startIndex, range.startIndex + range.matchLength));
+        } else if (node.type === 'text' && range) {
+            found.push(...findWikiEmbeds(content, range.startIndex, range.startIndex + range.matchLength));
+        }
+        if ('children' in node) node.children.forEach(visit);
+    };
+    visit(tree);
+
+    return found.sort((a, b) => a.startIndex - b.startIndex);
+};
+
+const escapeAlt = (alt: string): string => alt.replace(/([\\\[\]])/g, '\\$1');
+const escapeTitle = (title: string): string => title.replace(/(["\\])/g, '\\$1');
+
+/** Destination as written in Markdown; angle brackets keep spaces and unbalanced parentheses safe. */
+export const formatDestination = (path: string): string => {
+    return /[\s()<>]/.test(path) ? `<${path.replace(/([<>])/g, '\\$1')}>` : path;
+};
+
+export const formatMarkdownImage = (alt: string, path: string, title?: string): string => {
+    return `![${escapeAlt(alt)}](${formatDestination(path)}${title ? ` "${escapeTitle(title)}"` : ''})`;
+};
+
+export const formatImageReference = (alt: string, label: string): string => `![${escapeAlt(alt)}][${label}]`;
+
+export const formatDefinition = (label: string, path: string, title?: string): string => {
+    return `[${label}]: ${formatDestination(path)}${title ? ` "${escapeTitle(title)}"` : ''}`;
+};
+
+/**
+ * Obsidian embed pointing at a file name. A size modifier wins over the alias, because Obsidian
+ * reads the part after `|` as either a size or the alt text, never both.
+ */
+export const formatWikiEmbed = (target: string, alt: string, size?: string): string => {
+    const modifier = size || alt.replace(/[\[\]|]/g, '').trim();
+    return `![[${target}${modifier ? `|${modifier}` : ''}]]`;
+};
+
+/** Rewrites an `<img>` tag in place, replacing src and alt but keeping every other attribute. */
+export const rewriteHtmlImage = (tag: string, path: string, alt: string): string => {
+    const safeAlt = alt.replace(/"/g, '&quot;');
+    let replaced = tag.replace(/(\s)src\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/i, `$1src="${path}"`);
+    if (/\salt\s*=\s*/i.test(replaced)) {
+        replaced = replaced.replace(/(\s)alt\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/i, `$1alt="${safeAlt}"`);
+    } else {
+        replaced = replaced.replace(/<img/i, `<img alt="${safeAlt}"`);
+    }
+    return replaced;
+};
+
+export interface TextEdit extends SourceRange {
+    text: string;
+}
+
+/** Applies non-overlapping edits to the source; later edits that overlap an earlier one are dropped. */
+export const applyEdits = (content: string, edits: TextEdit[]): string => {
+    const sorted = [...edits].sort((a, b) => a.startIndex - b.startIndex);
+    let cursor = 0;
+    let rebuilt = '';
+    for (const edit of sorted) {
+        if (edit.startIndex < cursor) continue;
+        rebuilt += content.slice(cursor, edit.startIndex) + edit.text;
+        cursor = edit.startIndex + edit.matchLength;
+    }
+    return rebuilt + content.slice(cursor);
+};
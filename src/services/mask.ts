@@ -0,0 +1,70 @@
+// Region edits: the mask is a black PNG, white where the image may change, at the image's own size
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('An image for the region edit could not be decoded.'));
+    img.src = dataUrl;
+});
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available.');
+    return [canvas, context];
+};
+
+/** Turns painted pixels (any colour, any opacity) into a white-on-black mask PNG. */
+export const paintingToMask = (painting: HTMLCanvasElement): string => {
+    const [canvas, context] = createCanvas(painting.width, painting.height);
+    context.drawImage(painting, 0, 0);
+    context.globalCompositeOperation = 'source-in';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Keeps `edited` only inside the mask and `original` everywhere else, so pixels outside the region stay
+ * exactly as they were. The edited image is cropped to the original's shape if the model changed it, and
+ * the mask edge is softened inward by `featherPx` so the seam does not show.
+ */
+export const compositeMasked = async (original: string, edited: string, mask: string, featherPx = 2): Promise<string> => {
+    const [base, result, region] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+
+    // Mask luminance becomes alpha. The blurred edge is capped by the painted mask, so the feather
+    // only fades the edit in from inside the region and never reaches the pixels around it.
+    const [maskCanvas, maskContext] = createCanvas(width, height);
+    maskContext.drawImage(region, 0, 0, width, height);
+    const pixels = maskContext.getImageData(0, 0, width, height);
+    let feathered = pixels;
+    if (featherPx > 0) {
+        const [, blurContext] = createCanvas(width, height);
+        blurContext.filter = `blur(${featherPx}px)`;
+        blurContext.drawImage(region, 0, 0, width, height);
+        feathered = blurContext.getImageData(0, 0, width, height);
+    }
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i + 3] = Math.min(pixels.data[i], feathered.data[i]);
+    }
+    maskContext.putImageData(pixels, 0, 0);
+
+    const [canvas, context] = createCanvas(width, height);
+    const scale = Math.max(width / result.naturalWidth, height / result.naturalHeight);
+    const drawnWidth = result.naturalWidth * scale;
+    const drawnHeight = result.naturalHeight * scale;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(result, (width - drawnWidth) / 2, (height - drawnHeight) / 2, drawnWidth, drawnHeight);
+    context.globalCompositeOperation = 'destination-in';
+    context.drawImage(maskCanvas, 0, 0);
+    context.globalCompositeOperation = 'destination-over';
+    context.drawImage(base, 0, 0);
+    return canvas.toDataURL('image/png');
+};
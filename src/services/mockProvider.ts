@@ -0,0 +1,169 @@
+import type { Part, Schema } from "@google/genai";
+import type { ImageGenerationOptions, RequestOptions } from './genai';
+import type { GenerationProvider } from './provider';
+import { fitImage } from './imageSize';
+import { refusalError } from './errors';
+
+// Offline provider for development and demos: same input, same output, no key or network needed.
+// Text answers are canned in the JSON or XML shapes the calls ask for; images are labelled placeholders.
+
+const hash = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Simulated latency, cut short by the signal like a real request
+const wait = (signal?: AbortSignal, ms = 300) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+const styleLabel = (styleImages: Part[]): string =>
+    styleImages.length ? ` · styled (${styleImages.length} ref${styleImages.length > 1 ? 's' : ''})` : '';
+
+const subjectLabel = (options: ImageGenerationOptions): string =>
+    options.subjects?.length ? ` · ${options.subjects.map(subject => subject.name).join(', ')}` : '';
+
+const MOCK_REFUSAL = {
+    candidates: [{
+        finishReason: 'IMAGE_SAFETY',
+        content: { parts: [{ text: 'Mock refusal: prompts mentioning "mock-refusal" are declined so the refusal path can be tried.' }] },
+    }],
+};
+
+const excerpt = (text: string, words = 12): string => text.replace(/\s+/g, ' ').trim().split(' ').slice(0, words).join(' ');
+
+const quotedAlt = (prompt: string): string => prompt.match(/alt text: "([^"]*)"/i)?.[1] || prompt.match(/user-provided alt[^"]*"([^"]*)"/i)?.[1] || '';
+
+const cannedSuggestions = (prompt: string): string => {
+    const max = Number(prompt.match(/at most (\d+)/)?.[1]) || 3;
+    const lines = [...prompt.matchAll(/^(\d+)\| (.*)$/gm)].map(m => ({ line: Number(m[1]), text: m[2] }));
+    // Paragraph openers that are plain prose
+    const openers = lines.filter((l, i) => l.text.trim() && !/^\s*(#|```|~~~|[-*+|>]|\d+\.)/.test(l.text) && (i === 0 || !lines[i - 1].text.trim()));
+    const step = Math.max(1, Math.floor(openers.length / max));
+    return openers.filter((_, i) => i % step === 0).slice(0, max).map(l => [
+        '<suggestion>',
+        `<line>${l.line}</line>`,
+        `<anchor>${l.text.trim()}</anchor>`,
+        '<rationale>Mock suggestion: this paragraph opens a new idea.</rationale>',
+        `<alt>Illustration of ${excerpt(l.text, 8)}</alt>`,
+        '</suggestion>',
+    ].join('\n')).join('\n');
+};
+
+const cannedText = (prompt: string, schema?: Schema): string => {
+    const id = hash(prompt).toString(16).padStart(8, '0');
+    if (schema?.properties?.filename) {
+        return JSON.stringify({ filename: `mock-image-${id.slice(0, 6)}`, description: `Placeholder illustration ${id.slice(0, 6)}` });
+    }
+    if (schema?.properties?.prompts) {
+        const subject = quotedAlt(prompt) || 'the surrounding document text';
+        const count = Number(schema.properties.prompts.maxItems) || 1;
+        return JSON.stringify({ prompts: Array.from({ length: count }, (_, i) => `Mock concept ${i + 1} (${id.slice(0, 4)}): an illustration of ${subject}.`) });
+    }
+    if (prompt.includes('<suggestion>')) return cannedSuggestions(prompt);
+    return `A placeholder image (${id.slice(0, 6)}) matching: ${excerpt(quotedAlt(prompt) || prompt)}`;
+};
+
+const canvasSize = (aspectRatio?: string, longSide = 768): [number, number] => {
+    const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+    if (!w || !h) return [longSide, longSide];
+    return w >= h ? [longSide, Math.round(longSide * h / w)] : [Math.round(longSide * w / h), longSide];
+};
+
+const wrapText = (context: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number, maxLines: number) => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (context.measureText(candidate).width > maxWidth && current) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    }
+    if (current) lines.push(current);
+    lines.slice(0, maxLines).forEach((line, i) => context.fillText(line, x, y + i * lineHeight));
+};
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Mock provider could not load the image.'));
+    img.src = dataUrl;
+});
+
+/**
+ * Draws a placeholder: a colour derived from `seed`, or `base` when given, with a caption band.
+ * `tint` washes the whole base in that colour so a region edit shows inside its mask.
+ */
+const drawPlaceholder = async (seed: string, label: string, caption: string, options: { aspectRatio?: string; base?: string; tint?: boolean } = {}): Promise<string> => {
+    const base = options.base ? await loadImage(options.base) : null;
+    const [width, height] = base ? [base.naturalWidth, base.naturalHeight] : canvasSize(options.aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available.');
+
+    const hue = hash(seed) % 360;
+    if (base) {
+        context.drawImage(base, 0, 0, width, height);
+        if (options.tint) {
+            context.fillStyle = `hsla(${hue}, 70%, 50%, 0.45)`;
+            context.fillRect(0, 0, width, height);
+        }
+    } else {
+        context.fillStyle = `hsl(${hue}, 60%, 72%)`;
+        context.fillRect(0, 0, width, height);
+    }
+    const fontSize = Math.max(14, Math.round(Math.min(width, height) / 24));
+    const band = fontSize * 5;
+    context.fillStyle = `hsla(${hue}, 40%, 20%, 0.75)`;
+    context.fillRect(0, height - band, width, band);
+    context.fillStyle = '#ffffff';
+    context.font = `bold ${fontSize}px sans-serif`;
+    context.fillText(label, fontSize, height - band + fontSize * 1.4);
+    context.font = `${Math.round(fontSize * 0.8)}px sans-serif`;
+    wrapText(context, caption, fontSize, height - band + fontSize * 2.6, width - fontSize * 2, fontSize, 3);
+    return canvas.toDataURL('image/png');
+};
+
+export const createMockProvider = (): GenerationProvider => ({
+    name: 'mock',
+    textModel: 'mock-text',
+    imageModel: 'mock-image',
+    completeText: async (prompt: string, options: RequestOptions = {}) => {
+        await wait(options.signal);
+        return cannedText(prompt, options.responseSchema);
+    },
+    describeImage: async (imageDataUrl: string, prompt: string, options: RequestOptions = {}) => {
+        await wait(options.signal);
+        // The image size is mixed in so different picks in the same context get different names
+        return options.responseSchema ? cannedText(prompt + imageDataUrl.length, options.responseSchema) : `A placeholder image with a flat coloured background (${imageDataUrl.length} bytes).`;
+    },
+    generateImage: async (prompt: string, styleImages: Part[] = [], options: ImageGenerationOptions = {}) => {
+        await wait(options.signal);
+        // Lets the refusal display and rephrasing be tried offline
+        if (/mock-refusal/i.test(prompt)) throw refusalError(MOCK_REFUSAL);
+        const label = `Mock image${styleLabel(styleImages)}${subjectLabel(options)}${options.aspectRatio ? ` · ${options.aspectRatio}` : ''}`;
+        return fitImage(await drawPlaceholder(prompt + (options.styleGuide || '') + (options.extraPrompt || ''), label, excerpt(prompt, 30), { aspectRatio: options.aspectRatio }), options);
+    },
+    generateVariation: async (imageDataUrl: string, altText: string, styleImages: Part[] = [], options: ImageGenerationOptions = {}) => {
+        await wait(options.signal);
+        return fitImage(await drawPlaceholder(altText, `Mock variation${styleLabel(styleImages)}${subjectLabel(options)}`, altText || 'Improved original', { base: imageDataUrl }), options);
+    },
+    editImage: async (branchKey: string, imageDataUrl: string, instruction: string, styleImages: Part[] = [], options: ImageGenerationOptions = {}) => {
+        await wait(options.signal);
+        return fitImage(await drawPlaceholder(branchKey + instruction, `Mock ${options.mask ? 'region edit' : 'edit'}${styleLabel(styleImages)}${subjectLabel(options)}`, instruction, { base: imageDataUrl, tint: !!options.mask }), options);
+    },
+});
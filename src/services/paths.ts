@@ -0,0 +1,102 @@
+// Helpers for POSIX-style paths inside a .zip archive (always '/'-separated, no leading slash).
+
+export const dirname = (path: string): string => {
+    const idx = path.lastIndexOf('/');
+    return idx >= 0 ? path.substring(0, idx) : '';
+};
+
+export const basename = (path: string): string => path.split('/').pop() || path;
+
+/**
+ * Joins a base directory and a relative path, collapsing '.' and '..' segments.
+ * Returns null when the path climbs above the archive root.
+ */
+export const joinPath = (baseDir: string, relativePath: string): string | null => {
+    const segments = relativePath.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+    for (const segment of relativePath.split('/')) {
+        if (!segment || segment === '.') continue;
+        if (segment === '..') {
+            if (!segments.length) return null;
+            segments.pop();
+            continue;
+        }
+        segments.push(segment);
+    }
+    return segments.join('/');
+};
+
+/** Relative path from a directory to a target file, e.g. ('docs/a', 'images/x.png') → '../../images/x.png'. */
+export const relativePath = (fromDir: string, toPath: string): string => {
+    const from = fromDir.split('/').filter(Boolean);
+    const to = toPath.split('/').filter(Boolean);
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+    const ups = from.slice(common).map(() => '..');
+    return [...ups, ...to.slice(common)].join('/');
+};
+
+/**
+ * Resolves an Obsidian wiki embed target the way Obsidian does: by file name anywhere in the vault
+ * (or by path suffix when the link includes folders), preferring the document's own folder and then
+ * the shortest path when several files share the name. When nothing matches, the candidates are files
+ * with the same name in other folders.
+ */
+export const resolveWikiTarget = (target: string, documentPath: string, filePaths: string[]): ArchiveResolution => {
+    const resolvedPath = target.replace(/^\/+/, '');
+    const wanted = resolvedPath.toLowerCase();
+    const candidates = filePaths.filter(p => {
+        const lower = p.toLowerCase();
+        return lower === wanted || lower.endsWith(`/${wanted}`);
+    });
+    if (!candidates.length) {
+        const name = basename(resolvedPath).toLowerCase();
+        return { kind: 'missing', resolvedPath, candidates: filePaths.filter(path => basename(path).toLowerCase() === name) };
+    }
+    const docDir = dirname(documentPath);
+    const sameFolder = candidates.find(p => dirname(p) === docDir);
+    if (sameFolder) return { kind: 'found', path: sameFolder };
+    return { kind: 'found', path: [...candidates].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))[0] };
+};
+
+export type ArchiveResolution =
+    | { kind: 'found'; path: string }
+    // Several files match once case is ignored
+    | { kind: 'ambiguous'; resolvedPath: string; candidates: string[] }
+    // Nothing at the resolved path; candidates are files with the same name elsewhere in the archive
+    | { kind: 'missing'; resolvedPath: string; candidates: string[] };
+
+const decodePath = (path: string): string => {
+    try {
+        return decodeURIComponent(path);
+    } catch {
+        return path;
+    }
+};
+
+/**
+ * Resolves an image link against the folder of the Markdown file that contains it. Handles `../`,
+ * URL-encoded names, query strings and fragments, Windows separators and case differences.
+ * Returns null for links that do not point inside the archive (remote URLs, data URLs).
+ */
+export const resolveArchivePath = (link: string, documentPath: string, filePaths: string[]): ArchiveResolution | null => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(link) || link.startsWith('//')) return null;
+    const normalized = link.trim().replace(/\\/g, '/');
+    const withoutSuffix = normalized.replace(/[?#].*$/, '');
+    // A literal '#' or '?' may be part of the file name, so try the link as written first
+    const variants = [...new Set([normalized, withoutSuffix, decodePath(normalized), decodePath(withoutSuffix)])];
+    const joined = variants
+        .map(variant => joinPath(dirname(documentPath), variant))
+        .filter((path): path is string => !!path);
+    const resolvedPath = joined[joined.length - 1] ?? decodePath(withoutSuffix);
+
+    const exact = joined.find(path => filePaths.includes(path));
+    if (exact) return { kind: 'found', path: exact };
+
+    const wanted = new Set(joined.map(path => path.toLowerCase()));
+    const caseMatches = filePaths.filter(path => wanted.has(path.toLowerCase()));
+    if (caseMatches.length === 1) return { kind: 'found', path: caseMatches[0] };
+    if (caseMatches.length > 1) return { kind: 'ambiguous', resolvedPath, candidates: caseMatches };
+
+    const name = basename(resolvedPath).toLowerCase();
+    return { kind: 'missing', resolvedPath, candidates: filePaths.filter(path => basename(path).toLowerCase() === name) };
+};
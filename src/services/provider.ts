@@ -0,0 +1,47 @@
+import type { Part } from "@google/genai";
+import { createGeminiProvider, type ImageGenerationOptions, type RequestOptions } from './genai';
+import { createMockProvider } from './mockProvider';
+import { getResponseCache, withResponseCache } from './cache';
+
+/**
+ * Everything BananaMD asks of a model backend. Images travel as data URLs; style references
+ * are inline image parts. Returned images already match the requested aspect ratio and size. Every
+ * call takes an optional AbortSignal and rejects with an AbortError once it fires.
+ */
+export interface GenerationProvider {
+    readonly name: string;
+    // Models behind text and image calls, part of the response cache key
+    readonly textModel: string;
+    readonly imageModel: string;
+    // Text-only completion (prompt drafting, suggestions)
+    completeText(prompt: string, options?: RequestOptions): Promise<string>;
+    // Text answer about an image (description, filename and alt text)
+    describeImage(imageDataUrl: string, prompt: string, options?: RequestOptions): Promise<string>;
+    generateImage(prompt: string, styleImages?: Part[], options?: ImageGenerationOptions): Promise<string>;
+    // Improved or restyled version of an existing image
+    generateVariation(imageDataUrl: string, altText: string, styleImages?: Part[], options?: ImageGenerationOptions): Promise<string>;
+    // Iterative edit; `branchKey` identifies the version branch so follow-up edits share a session. With
+    // `options.mask` only that region should change; the caller composites the result.
+    editImage(branchKey: string, imageDataUrl: string, instruction: string, styleImages?: Part[], options?: ImageGenerationOptions): Promise<string>;
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+// Configured with BANANAMD_PROVIDER in .env.local; without it, Gemini is used when a key is set and the
+// offline mock otherwise
+const configuredProvider = (): ProviderName => {
+    const name = (process.env.BANANAMD_PROVIDER || '').toLowerCase();
+    if (name === 'gemini' || name === 'mock') return name;
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+let provider: GenerationProvider | null = null;
+
+export const getProvider = (): GenerationProvider => {
+    if (!provider) {
+        provider = withResponseCache(configuredProvider() === 'mock'
+            ? createMockProvider()
+            : createGeminiProvider(process.env.API_KEY || ''), getResponseCache());
+    }
+    return provider;
+};
@@ -0,0 +1,105 @@
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobQueue<K> {
+    // Queue keys that are not already queued, running or finished, in the given order
+    enqueue(keys: K[]): void;
+    // Start a key right away, ahead of the queue and regardless of the limit or a pause
+    prioritize(key: K): void;
+    // Drop a key so it can be queued again; a job still running for it no longer reports back
+    forget(key: K): void;
+    clear(): void;
+    pause(): void;
+    resume(): void;
+    setConcurrency(limit: number): void;
+}
+
+interface JobQueueOptions<K> {
+    concurrency: number;
+    // Resolves false when there turned out to be nothing to do, which leaves the key free to be queued later.
+    // Rejecting with an AbortError marks the job cancelled rather than failed.
+    run: (key: K) => Promise<boolean | void>;
+    onStateChange?: (key: K, state: JobState | undefined) => void;
+}
+
+/** Runs background jobs, at most `concurrency` at a time, in the order they were queued. */
+export const createJobQueue = <K>({ run, onStateChange, ...options }: JobQueueOptions<K>): JobQueue<K> => {
+    let concurrency = Math.max(1, options.concurrency);
+    let paused = false;
+    let running = 0;
+    const pending: K[] = [];
+    const states = new Map<K, JobState>();
+    // Bumped when a key is forgotten or the queue cleared, so late results are ignored
+    const tokens = new Map<K, number>();
+    let epoch = 0;
+
+    const setState = (key: K, state: JobState | undefined) => {
+        if (state) states.set(key, state);
+        else states.delete(key);
+        onStateChange?.(key, state);
+    };
+
+    const start = (key: K) => {
+        const token = tokens.get(key) ?? 0;
+        const startedIn = epoch;
+        running++;
+        setState(key, 'running');
+        run(key)
+            .then(
+                result => result === false ? undefined : 'done' as const,
+                error => error?.name === 'AbortError' ? 'cancelled' as const : 'failed' as const,
+            )
+            .then(state => {
+                running--;
+                if (startedIn === epoch && (tokens.get(key) ?? 0) === token) setState(key, state);
+                pump();
+            });
+    };
+
+    const pump = () => {
+        while (!paused && running < concurrency && pending.length) start(pending.shift()!);
+    };
+
+    const removePending = (key: K) => {
+        const index = pending.indexOf(key);
+        if (index >= 0) pending.splice(index, 1);
+    };
+
+    return {
+        enqueue: (keys) => {
+            for (const key of keys) {
+                if (states.has(key)) continue;
+                pending.push(key);
+                setState(key, 'queued');
+            }
+            pump();
+        },
+        prioritize: (key) => {
+            const state = states.get(key);
+            if (state && state !== 'queued') return;
+            removePending(key);
+            start(key);
+        },
+        forget: (key) => {
+            removePending(key);
+            tokens.set(key, (tokens.get(key) ?? 0) + 1);
+            if (states.has(key)) setState(key, undefined);
+        },
+        clear: () => {
+            pending.length = 0;
+            states.clear();
+            tokens.clear();
+            epoch++;
+        },
+        pause: () => {
+            paused = true;
+        },
+        resume: () => {
+            paused = false;
+            pump();
+        },
+        setConcurrency: (limit) => {
+            concurrency = Math.max(1, limit);
+            pump();
+        },
+    };
+};
@@ -0,0 +1,123 @@
+import { readFrontMatter } from './frontMatter';
+import { closestAspectRatio, parseAspectRatio, type AspectRatio } from './imageSize';
+import type { SourceRange } from './markdown';
+
+export type DeckEngine = 'marp' | 'reveal' | 'slidev';
+
+export interface Slide extends SourceRange {
+    // 1-based position in the deck
+    number: number;
+}
+
+export interface SlideDeck {
+    engine: DeckEngine;
+    title?: string;
+    aspectRatio?: AspectRatio;
+    slides: Slide[];
+}
+
+// Keys only Slidev's headmatter uses. `layout`, `transition`, `download` and `theme` are common in blog
+// front matter (Jekyll, Hugo, Docusaurus), so they do not mark a deck.
+const SLIDEV_KEYS = ['highlighter', 'drawings', 'mdc', 'canvasWidth', 'routerMode', 'exportFilename'];
+
+const detectEngine = (data: Record<string, unknown>): DeckEngine | null => {
+    if (data.marp === true || data.marp === 'true') return 'marp';
+    if ('revealOptions' in data || 'reveal' in data || data.format === 'revealjs' || (typeof data.format === 'object' && data.format !== null && 'revealjs' in data.format)) return 'reveal';
+    if (SLIDEV_KEYS.some(key => key in data)) return 'slidev';
+    return null;
+};
+
+const deckAspectRatio = (engine: DeckEngine, data: Record<string, unknown>): AspectRatio | undefined => {
+    if (engine === 'marp') {
+        // Marp's built-in themes accept `size: 16:9` or `size: 4:3`, defaulting to 16:9
+        return parseAspectRatio(data.size) || '16:9';
+    }
+    if (engine === 'slidev') {
+        return parseAspectRatio(data.aspectRatio) || '16:9';
+    }
+    const options = (data.revealOptions || data.reveal || {}) as Record<string, unknown>;
+    const width = Number(options.width) || 960;
+    const height = Number(options.height) || 700;
+    return closestAspectRatio(width, height);
+};
+
+/** Line that separates slides for each engine; Marp and reveal.js need a blank line before it. */
+const isSeparator = (engine: DeckEngine, line: string): boolean => {
+    if (engine === 'marp') return /^(?:-{3,}|\*{3,}|_{3,})\s*$/.test(line);
+    if (engine === 'reveal') return /^-{3,4}\s*$/.test(line);
+    return /^---\s*$/.test(line);
+};
+
+const YAML_LINE = /^(?:\s*[\w-]+\s*:.*|\s+.*|\s*-\s.*|\s*#.*|\s*)$/;
+
+/**
+ * Detects Marp, reveal.js (reveal-md / Quarto) and Slidev decks from their front matter and splits the
+ * body into slides at separator lines, ignoring separators inside fenced code blocks.
+ */
+export const detectSlideDeck = (content: string): SlideDeck | null => {
+    const frontMatter = readFrontMatter(content);
+    if (!frontMatter) return null;
+    const engine = detectEngine(frontMatter.data);
+    if (!engine) return null;
+
+    const lines: { text: string; start: number; end: number }[] = [];
+    let offset = frontMatter.bodyStart;
+    for (const text of content.slice(frontMatter.bodyStart).split('\n')) {
+        lines.push({ text: text.replace(/\r$/, ''), start: offset, end: offset + text.length + 1 });
+        offset += text.length + 1;
+    }
+
+    const slides: Slide[] = [];
+    let slideStart = frontMatter.bodyStart;
+    let fence: string | null = null;
+    const closeSlide = (end: number) => {
+        slides.push({ number: slides.length + 1, startIndex: slideStart, matchLength: Math.max(0, end - slideStart) });
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const { text } = lines[i];
+        const fenceMatch = text.match(/^\s{0,3}(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (!fence) fence = fenceMatch[1];
+            else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+            continue;
+        }
+        if (fence || !isSeparator(engine, text)) continue;
+        const previousBlank = i === 0 || lines[i - 1].text.trim() === '';
+        if (engine !== 'slidev' && !previousBlank) continue;
+
+        closeSlide(lines[i].start);
+        let next = i + 1;
+        if (engine === 'slidev') {
+            // Slidev separators may carry per-slide front matter: `---\nlayout: cover\n---`
+            let j = next;
+            while (j < lines.length && !/^---\s*$/.test(lines[j].text) && YAML_LINE.test(lines[j].text)) j++;
+            if (j < lines.length && j > next && /^---\s*$/.test(lines[j].text)) next = j + 1;
+        }
+        i = next - 1;
+        slideStart = next < lines.length ? lines[next].start : content.length;
+    }
+    closeSlide(content.length);
+
+    const declaredTitle = typeof frontMatter.data.title === 'string' ? frontMatter.data.title : undefined;
+    const headingTitle = content.slice(frontMatter.bodyStart).match(/^#\s+(.+)$/m)?.[1].trim();
+    return {
+        engine,
+        title: declaredTitle || headingTitle,
+        aspectRatio: deckAspectRatio(engine, frontMatter.data),
+        slides,
+    };
+};
+
+export const slideAt = (deck: SlideDeck, offset: number): Slide | undefined => {
+    return deck.slides.find(slide => offset >= slide.startIndex && offset < slide.startIndex + slide.matchLength)
+        || deck.slides[deck.slides.length - 1];
+};
+
+/** Context for an image on a slide: the slide's own text (clipped around the image) plus the deck title. */
+export const slideContext = (content: string, deck: SlideDeck, slide: Slide, match: SourceRange, radius = 500): string => {
+    const start = Math.max(slide.startIndex, match.startIndex - radius);
+    const end = Math.min(slide.startIndex + slide.matchLength, match.startIndex + match.matchLength + radius);
+    const header = [deck.title ? `Deck: ${deck.title}` : '', `Slide ${slide.number} of ${deck.slides.length}`].filter(Boolean).join('\n');
+    return `${header}\n\n${content.substring(start, end).trim()}`;
+};
@@ -0,0 +1,55 @@
+// Minimal promise wrapper around one IndexedDB object store, shared by the response cache and the style library
+
+export interface ObjectStore<T> {
+    get(key: string): Promise<T | undefined>;
+    getAll(): Promise<T[]>;
+    put(value: T): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+// Key for a new record, unique enough for one browser's stores
+export const newRecordId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (name: string, store: string, keyPath: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+    }
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(store, { keyPath });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** One store in its own database, opened on first use. Operations reject when storage is unavailable. */
+export const createObjectStore = <T>(databaseName: string, storeName: string, keyPath: string): ObjectStore<T> => {
+    let database: Promise<IDBDatabase> | null = null;
+    const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+        database ??= openDatabase(databaseName, storeName, keyPath);
+        // Let a later call try again after a failed open (e.g. blocked by another tab)
+        const db = await database.catch(error => {
+            database = null;
+            throw error;
+        });
+        return promisify(action(db.transaction(storeName, mode).objectStore(storeName)));
+    };
+    return {
+        get: (key) => run('readonly', store => store.get(key) as IDBRequest<T | undefined>),
+        getAll: () => run('readonly', store => store.getAll() as IDBRequest<T[]>),
+        put: async (value) => {
+            await run('readwrite', store => store.put(value));
+        },
+        delete: async (key) => {
+            await run('readwrite', store => store.delete(key));
+        },
+        clear: async () => {
+            await run('readwrite', store => store.clear());
+        },
+    };
+};
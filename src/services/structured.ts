@@ -0,0 +1,105 @@
+import { Type, type Schema } from "@google/genai";
+import type { RequestOptions } from './genai';
+import type { GenerationProvider } from './provider';
+import { GenerationError } from './errors';
+
+// Text answers the app reads fields from are requested as JSON with a response schema, then validated.
+// Validators throw an Error saying what is wrong, which is also what the repair request is told.
+
+/** `{"prompts": [...]}`: the prompt drafting and rephrasing templates' answer, `count` prompts long. */
+export const promptListSchema = (count: number): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        prompts: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: String(count), maxItems: String(count) },
+    },
+    required: ['prompts'],
+});
+
+/** `{"filename": ..., "description": ...}`: the naming template's answer. */
+export const NAMING_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        filename: { type: Type.STRING },
+        description: { type: Type.STRING },
+    },
+    required: ['filename', 'description'],
+    propertyOrdering: ['filename', 'description'],
+};
+
+/** Non-empty prompts in order, at most `limit`; fewer than asked for are accepted. */
+export const readPromptList = (limit: number) => (value: unknown): string[] => {
+    const prompts = (value as { prompts?: unknown } | null)?.prompts;
+    if (!Array.isArray(prompts)) throw new Error('The answer has no "prompts" list.');
+    const texts = prompts.map(prompt => typeof prompt === 'string' ? prompt.trim() : '').filter(Boolean);
+    if (!texts.length) throw new Error('The "prompts" list has no prompt in it.');
+    return texts.slice(0, limit);
+};
+
+export interface Naming {
+    filename: string;
+    description: string;
+}
+
+export const readNaming = (value: unknown): Naming => {
+    const { filename, description } = (value ?? {}) as Record<string, unknown>;
+    if (typeof filename !== 'string' || !filename.trim()) throw new Error('The answer has no "filename".');
+    if (typeof description !== 'string' || !description.trim()) throw new Error('The answer has no "description".');
+    return { filename: filename.trim(), description: description.trim() };
+};
+
+// JSON mode answers are bare JSON; a code fence or a sentence around the object is tolerated
+const parseObject = (text: string): unknown => {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end < start) throw new Error('The answer contains no JSON object.');
+    try {
+        return JSON.parse(text.slice(start, end + 1));
+    } catch (e) {
+        throw new Error(`The answer is not valid JSON (${e instanceof Error ? e.message : 'parse error'}).`);
+    }
+};
+
+type Checked<T> = { value: T } | { problem: string };
+
+const check = <T>(text: string, read: (value: unknown) => T): Checked<T> => {
+    try {
+        return { value: read(parseObject(text)) };
+    } catch (e) {
+        return { problem: e instanceof Error ? e.message : String(e) };
+    }
+};
+
+const repairPrompt = (answer: string, problem: string, schema: Schema): string => `The answer below was meant to be a JSON object matching this schema, but it could not be used: ${problem}
+
+Schema:
+${JSON.stringify(schema)}
+
+Answer:
+"""
+${answer}
+"""
+
+Return ONLY the corrected JSON object. Keep the content of the answer and change only what the schema requires.`;
+
+/**
+ * Asks for a JSON answer matching `schema` and reads it with `read`. An answer that does not parse or
+ * read is sent back once to be repaired; when the repair fails too, rejects with an 'invalid-response'
+ * GenerationError. Rejected answers are never cached, so asking again gets a fresh one.
+ */
+export const requestStructured = async <T>(
+    provider: GenerationProvider,
+    ask: (options: RequestOptions) => Promise<string>,
+    schema: Schema,
+    read: (value: unknown) => T,
+    options: RequestOptions = {}
+): Promise<T> => {
+    const structured: RequestOptions = { ...options, responseSchema: schema, accept: answer => 'value' in check(answer, read) };
+    const answer = await ask(structured);
+    const first = check(answer, read);
+    if ('value' in first) return first.value;
+
+    console.warn(`Model answer did not match its schema: ${first.problem} Asking for a repair...`);
+    const repaired = check(await provider.completeText(repairPrompt(answer, first.problem, schema), structured), read);
+    if ('value' in repaired) return repaired.value;
+    throw new GenerationError('invalid-response', `Gemini's answer could not be read, even after asking it to fix it. ${repaired.problem}`);
+};
@@ -0,0 +1,39 @@
+// Written style guide and negative constraints sent with every prompt-drafting and image call.
+// The global one is kept in localStorage; documents and references can override it.
+
+export interface StyleGuide {
+    // e.g. "flat vector, school-safe, brand palette #F5C518/#222"
+    guide: string;
+    // Things the images must not contain, e.g. "text in the image, photorealism"
+    avoid: string;
+}
+
+export const EMPTY_STYLE_GUIDE: StyleGuide = { guide: '', avoid: '' };
+
+const STORAGE_KEY = 'bananamd-style-guide';
+
+export const loadStyleGuide = (): StyleGuide => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return {
+            guide: typeof stored?.guide === 'string' ? stored.guide : '',
+            avoid: typeof stored?.avoid === 'string' ? stored.avoid : '',
+        };
+    } catch {
+        return EMPTY_STYLE_GUIDE;
+    }
+};
+
+export const saveStyleGuide = (styleGuide: StyleGuide): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(styleGuide));
+    } catch (e) {
+        console.warn('Could not save the style guide:', e);
+    }
+};
+
+/** Text for the `{style_guide}` template placeholder and image prompts; empty when nothing is set. */
+export const formatStyleGuide = ({ guide, avoid }: StyleGuide): string => [
+    guide.trim() && `Follow this style guide: ${guide.trim()}`,
+    avoid.trim() && `Never include: ${avoid.trim()}`,
+].filter(Boolean).join('\n');
@@ -0,0 +1,70 @@
+import { createObjectStore, newRecordId } from './storage';
+
+/** A named, reusable style: reference images sent with every generation and a written guide. */
+export interface StylePreset {
+    id: string;
+    name: string;
+    // Written style guide added to generation prompts
+    guide: string;
+    // 1 to MAX_STYLE_IMAGES reference images as data URLs
+    images: string[];
+    createdAt: number;
+}
+
+export const MAX_STYLE_IMAGES = 3;
+
+export interface StyleLibrary {
+    // Sorted by name
+    list(): Promise<StylePreset[]>;
+    save(preset: StylePreset): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+/** Presets kept in IndexedDB, which holds the images more comfortably than localStorage would. */
+export const createStyleLibrary = (): StyleLibrary => {
+    const store = createObjectStore<StylePreset>('bananamd-styles', 'presets', 'id');
+    return {
+        list: async () => (await store.getAll()).sort((a, b) => a.name.localeCompare(b.name)),
+        save: (preset) => store.put(preset),
+        remove: (id) => store.delete(id),
+    };
+};
+
+let styleLibrary: StyleLibrary | null = null;
+
+export const getStyleLibrary = (): StyleLibrary => {
+    if (!styleLibrary) styleLibrary = createStyleLibrary();
+    return styleLibrary;
+};
+
+// Shape of exported preset files, marked so other JSON files are rejected on import
+const FILE_FORMAT = 'bananamd-style-preset';
+
+export const serializePreset = ({ name, guide, images }: StylePreset): string =>
+    JSON.stringify({ format: FILE_FORMAT, version: 1, name, guide, images }, null, 2);
+
+/** Reads an exported preset file; the preset gets a new id so importing never overwrites one. */
+export const parsePresetFile = (text: string): StylePreset => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not a BananaMD style preset (invalid JSON).');
+    }
+    const data = (parsed ?? {}) as Record<string, unknown>;
+    if (data.format !== FILE_FORMAT) throw new Error('The file is not a BananaMD style preset.');
+    const images = Array.isArray(data.images)
+        ? data.images.filter((image: unknown): image is string => typeof image === 'string' && /^data:image\/[\w.+-]+;base64,/.test(image))
+        : [];
+    if (!images.length) throw new Error('The style preset has no reference images.');
+    return {
+        id: newRecordId(),
+        name: String(data.name || 'Imported style').trim(),
+        guide: typeof data.guide === 'string' ? data.guide.trim() : '',
+        images: images.slice(0, MAX_STYLE_IMAGES),
+        createdAt: Date.now(),
+    };
+};
+
+export const presetFilename = (preset: StylePreset): string =>
+    `${preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'style'}.bananamd-style.json`;
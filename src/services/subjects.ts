@@ -0,0 +1,62 @@
+import { createObjectStore } from './storage';
+
+/** A recurring character or object, drawn the same way wherever the document mentions it. */
+export interface Subject {
+    id: string;
+    name: string;
+    // Other names the document uses for it, e.g. "the robot" for a mascot called Pip
+    aliases: string[];
+    // What it looks like, sent with its reference images
+    description: string;
+    // 1 to MAX_SUBJECT_IMAGES reference images as data URLs
+    images: string[];
+    createdAt: number;
+}
+
+export const MAX_SUBJECT_IMAGES = 3;
+// Subjects sent with one generation; the ones mentioned first win
+export const MAX_SUBJECTS_PER_IMAGE = 3;
+
+export interface SubjectLibrary {
+    // Sorted by name
+    list(): Promise<Subject[]>;
+    save(subject: Subject): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+export const createSubjectLibrary = (): SubjectLibrary => {
+    const store = createObjectStore<Subject>('bananamd-subjects', 'subjects', 'id');
+    return {
+        list: async () => (await store.getAll()).sort((a, b) => a.name.localeCompare(b.name)),
+        save: (subject) => store.put(subject),
+        remove: (id) => store.delete(id),
+    };
+};
+
+let subjectLibrary: SubjectLibrary | null = null;
+
+export const getSubjectLibrary = (): SubjectLibrary => {
+    if (!subjectLibrary) subjectLibrary = createSubjectLibrary();
+    return subjectLibrary;
+};
+
+export const parseAliases = (text: string): string[] => text.split(',').map(alias => alias.trim()).filter(Boolean);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Position of the first whole-word, case-insensitive mention of any of the names, or -1
+const firstMention = (text: string, names: string[]): number => {
+    // Line breaks and double spaces in the text still match a multi-word name
+    const pattern = names.map(name => escapeRegExp(name.trim()).replace(/\s+/g, '\\s+')).filter(Boolean).join('|');
+    if (!pattern) return -1;
+    return text.search(new RegExp(`(?<![\\p{L}\\p{N}])(?:${pattern})(?![\\p{L}\\p{N}])`, 'iu'));
+};
+
+/** Subjects mentioned by name or alias in `text`, in order of first mention, at most MAX_SUBJECTS_PER_IMAGE. */
+export const findMentionedSubjects = (text: string, subjects: Subject[]): Subject[] =>
+    subjects
+        .map(subject => ({ subject, at: firstMention(text, [subject.name, ...subject.aliases]) }))
+        .filter(({ at }) => at >= 0)
+        .sort((a, b) => a.at - b.at)
+        .slice(0, MAX_SUBJECTS_PER_IMAGE)
+        .map(({ subject }) => subject);
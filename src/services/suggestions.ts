@@ -0,0 +1,104 @@
+import type { MarkdownDocument } from './documents';
+
+/** A place where auto-illustrate proposes adding an image to a document without any. */
+export interface ImageSuggestion {
+    documentPath: string;
+    // 1-based line the suggestion is anchored to, and the offset where the new image goes (end of its block)
+    lineNumber: number;
+    anchor: string;
+    insertAt: number;
+    rationale: string;
+    alt: string;
+}
+
+interface Line {
+    text: string;
+    start: number;
+    // Offset of the end of the line's text, before its line break
+    end: number;
+    // Inside (or delimiting) a fenced code block
+    fenced: boolean;
+}
+
+const scanLines = (content: string): Line[] => {
+    const lines: Line[] = [];
+    let offset = 0;
+    let fence: string | null = null;
+    for (const raw of content.split('\n')) {
+        const text = raw.replace(/\r$/, '');
+        const fenceMatch = text.match(/^\s{0,3}(`{3,}|~{3,})/);
+        let fenced = !!fence;
+        if (fenceMatch) {
+            if (!fence) fence = fenceMatch[1];
+            else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+            fenced = true;
+        }
+        lines.push({ text, start: offset, end: offset + text.length, fenced });
+        offset += raw.length + 1;
+    }
+    return lines;
+};
+
+const firstBodyLine = (doc: MarkdownDocument): number => doc.content.slice(0, doc.bodyStart).split('\n').length - 1;
+
+/** The document body with every line prefixed by its 1-based line number, as `12| text`. */
+export const numberLines = (doc: MarkdownDocument): string => {
+    const first = firstBodyLine(doc);
+    return scanLines(doc.content)
+        .slice(first)
+        .map((line, i) => `${first + i + 1}| ${line.text}`)
+        .join('\n');
+};
+
+/** Offset right after the paragraph, list or code block containing the 0-based line. */
+const blockEnd = (lines: Line[], index: number): number => {
+    let j = index;
+    while (j + 1 < lines.length && (lines[j + 1].text.trim() !== '' || lines[j + 1].fenced)) j++;
+    return lines[j].end;
+};
+
+const tagText = (block: string, tag: string): string =>
+    (block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1] || '').trim();
+
+/**
+ * Reads `<suggestion>` blocks from the model's answer. The anchor text wins over the line number when
+ * both are given, since models miscount lines more often than they misquote them.
+ */
+export const parseSuggestions = (text: string, doc: MarkdownDocument): ImageSuggestion[] => {
+    const lines = scanLines(doc.content);
+    const first = firstBodyLine(doc);
+    const suggestions: ImageSuggestion[] = [];
+    const blockRegex = /<suggestion>([\s\S]*?)<\/suggestion>/g;
+    let match;
+    while ((match = blockRegex.exec(text)) !== null) {
+        const alt = tagText(match[1], 'alt');
+        const anchor = tagText(match[1], 'anchor');
+        const statedIndex = parseInt(tagText(match[1], 'line'), 10) - 1;
+        if (!alt) continue;
+
+        let index = -1;
+        if (anchor) {
+            const matches = lines
+                .map((line, i) => ({ i, text: line.text.trim() }))
+                .filter(line => line.i >= first && line.text && (line.text === anchor || line.text.includes(anchor)));
+            if (matches.length) {
+                const target = Number.isNaN(statedIndex) ? first : statedIndex;
+                index = matches.reduce((best, line) => Math.abs(line.i - target) < Math.abs(best.i - target) ? line : best).i;
+            }
+        }
+        if (index < 0 && statedIndex >= first && statedIndex < lines.length) index = statedIndex;
+        if (index < 0) continue;
+
+        const insertAt = blockEnd(lines, index);
+        if (suggestions.some(s => s.insertAt === insertAt)) continue;
+        suggestions.push({
+            documentPath: doc.path,
+            lineNumber: index + 1,
+            anchor: lines[index].text.trim(),
+            insertAt,
+            rationale: tagText(match[1], 'rationale'),
+            alt,
+        });
+    }
+    return suggestions.sort((a, b) => a.insertAt - b.insertAt);
+};
@@ -0,0 +1,169 @@
+import { newRecordId } from './storage';
+
+// Prompt templates: the defaults are the .txt files served next to index.html, and edited variants are
+// kept in localStorage. Every saved edit is a new version, so earlier wording can be picked again.
+
+export type TemplateName = 'context' | 'description' | 'imageDescribe' | 'naming' | 'suggest' | 'rephrase';
+
+export type TemplateSet = Record<TemplateName, string>;
+
+export interface TemplateInfo {
+    file: string;
+    label: string;
+    // Placeholders BananaMD fills in for this template
+    placeholders: string[];
+}
+
+export const TEMPLATES: Record<TemplateName, TemplateInfo> = {
+    context: { file: 'context_to_description.txt', label: 'Descriptions from the document', placeholders: ['file_content', 'context', 'style_guide', 'count'] },
+    description: { file: 'description_to_nano_prompt.txt', label: 'Prompts from alt text', placeholders: ['alt_text', 'style_guide', 'count'] },
+    imageDescribe: { file: 'image_to_description.txt', label: 'Description of an existing image', placeholders: ['context', 'user_alt'] },
+    naming: { file: 'image_to_filename_description.txt', label: 'Filename and alt text', placeholders: ['context', 'user_alt', 'prompt_hint', 'alt_language'] },
+    suggest: { file: 'document_to_image_suggestions.txt', label: 'Image suggestions', placeholders: ['file_content', 'max_suggestions'] },
+    rephrase: { file: 'prompt_rephrase.txt', label: 'Rephrasing a refused prompt', placeholders: ['refusal', 'style_guide', 'prompt'] },
+};
+
+export const TEMPLATE_NAMES = Object.keys(TEMPLATES) as TemplateName[];
+
+export const loadDefaultTemplates = async (): Promise<TemplateSet> => {
+    const texts = await Promise.all(TEMPLATE_NAMES.map(async name => {
+        const response = await fetch(`./${TEMPLATES[name].file}`);
+        if (!response.ok) throw new Error(`Failed to load ${TEMPLATES[name].file} (HTTP ${response.status}).`);
+        return response.text();
+    }));
+    return Object.fromEntries(TEMPLATE_NAMES.map((name, i) => [name, texts[i]])) as TemplateSet;
+};
+
+// `{name}`; JSON examples in the templates (`{"prompts": ...}`) do not match
+const PLACEHOLDER = /\{([a-z][a-z0-9_]*)\}/g;
+
+/**
+ * Fills every occurrence of each placeholder in one pass. Placeholders without a value stay as typed,
+ * and placeholder-like text inside the values (a document mentioning `{context}`) is not filled again.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(PLACEHOLDER, (match, name: string) => Object.hasOwn(values, name) ? values[name] : match);
+
+export interface TemplateIssue {
+    // Unknown placeholders reach the model as typed; missing ones leave out what BananaMD would fill in;
+    // repeated ones are fine, every occurrence is filled
+    kind: 'unknown' | 'missing' | 'repeated';
+    placeholder: string;
+    message: string;
+}
+
+export const checkTemplate = (name: TemplateName, text: string): TemplateIssue[] => {
+    const counts = new Map<string, number>();
+    for (const match of text.matchAll(PLACEHOLDER)) counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+    const known = TEMPLATES[name].placeholders;
+    const issues: TemplateIssue[] = [];
+    for (const [placeholder, count] of counts) {
+        if (!known.includes(placeholder)) {
+            issues.push({ kind: 'unknown', placeholder, message: `{${placeholder}} is not a placeholder of this template and would be sent to the model as typed.` });
+        } else if (count > 1) {
+            issues.push({ kind: 'repeated', placeholder, message: `{${placeholder}} is used ${count} times; each one is filled in.` });
+        }
+    }
+    for (const placeholder of known) {
+        if (!counts.has(placeholder)) issues.push({ kind: 'missing', placeholder, message: `{${placeholder}} is not used, so the model will not see it.` });
+    }
+    return issues;
+};
+
+/** A saved edit of one template. Saving under a name already used adds the next version of it. */
+export interface TemplateVariant {
+    id: string;
+    template: TemplateName;
+    name: string;
+    version: number;
+    text: string;
+    createdAt: number;
+}
+
+export interface TemplateLibrary {
+    variants: TemplateVariant[];
+    // Variant in use for each template; without one, the default file is used
+    active: Partial<Record<TemplateName, string>>;
+}
+
+export const EMPTY_TEMPLATE_LIBRARY: TemplateLibrary = { variants: [], active: {} };
+
+const STORAGE_KEY = 'bananamd-templates';
+
+const isTemplateName = (value: unknown): value is TemplateName => typeof value === 'string' && Object.hasOwn(TEMPLATES, value);
+
+const isTemplateVariant = (value: unknown): value is TemplateVariant => {
+    const { id, template, name, version, text } = (value ?? {}) as Record<string, unknown>;
+    return typeof id === 'string' && isTemplateName(template) && typeof name === 'string' && typeof version === 'number' && typeof text === 'string';
+};
+
+export const loadTemplateLibrary = (): TemplateLibrary => {
+    try {
+        const stored = (JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') ?? {}) as Record<string, unknown>;
+        const variants = Array.isArray(stored.variants) ? stored.variants.filter(isTemplateVariant) : [];
+        const storedActive = (stored.active ?? {}) as Record<string, unknown>;
+        const active: TemplateLibrary['active'] = {};
+        for (const name of TEMPLATE_NAMES) {
+            const id = storedActive[name];
+            if (typeof id === 'string' && variants.some(v => v.id === id && v.template === name)) active[name] = id;
+        }
+        return { variants, active };
+    } catch {
+        return EMPTY_TEMPLATE_LIBRARY;
+    }
+};
+
+export const saveTemplateLibrary = (library: TemplateLibrary): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+    } catch (e) {
+        console.warn('Could not save the prompt templates:', e);
+    }
+};
+
+/** Stores `text` as the next version of the named variant and makes it the one in use. */
+export const addTemplateVersion = (library: TemplateLibrary, template: TemplateName, name: string, text: string): TemplateLibrary => {
+    const versions = library.variants.filter(v => v.template === template && v.name === name).map(v => v.version);
+    const variant: TemplateVariant = { id: newRecordId(), template, name, version: Math.max(0, ...versions) + 1, text, createdAt: Date.now() };
+    return { variants: [...library.variants, variant], active: { ...library.active, [template]: variant.id } };
+};
+
+/** Uses the variant for its template, or the default file when `id` is undefined. */
+export const selectTemplateVariant = (library: TemplateLibrary, template: TemplateName, id: string | undefined): TemplateLibrary => {
+    const active = { ...library.active };
+    if (id) active[template] = id;
+    else delete active[template];
+    return { ...library, active };
+};
+
+export const removeTemplateVariant = (library: TemplateLibrary, id: string): TemplateLibrary => ({
+    variants: library.variants.filter(v => v.id !== id),
+    active: Object.fromEntries(Object.entries(library.active).filter(([, activeId]) => activeId !== id)),
+});
+
+/** The templates in use: each one's active variant, or its default file. */
+export const activeTemplates = (defaults: TemplateSet, library: TemplateLibrary): TemplateSet =>
+    Object.fromEntries(TEMPLATE_NAMES.map(name => [name, library.variants.find(v => v.id === library.active[name])?.text ?? defaults[name]])) as TemplateSet;
+
+// Shape of exported template sets, marked so other JSON files are rejected on import
+const FILE_FORMAT = 'bananamd-templates';
+
+export const serializeTemplateSet = (templates: TemplateSet): string =>
+    JSON.stringify({ format: FILE_FORMAT, version: 1, templates }, null, 2);
+
+/** Reads an exported template set; templates it does not contain are left as they are. */
+export const parseTemplateSetFile = (text: string): Partial<TemplateSet> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not a BananaMD template set (invalid JSON).');
+    }
+    const data = (parsed ?? {}) as Record<string, unknown>;
+    if (data.format !== FILE_FORMAT || !data.templates || typeof data.templates !== 'object') {
+        throw new Error('The file is not a BananaMD template set.');
+    }
+    const templates = Object.fromEntries(Object.entries(data.templates).filter(([name, value]) => isTemplateName(name) && typeof value === 'string' && value.trim()));
+    if (!Object.keys(templates).length) throw new Error('The template set has no templates in it.');
+    return templates as Partial<TemplateSet>;
+};